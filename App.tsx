@@ -1,202 +1,474 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { View, StyleSheet, StatusBar } from 'react-native';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { View, StyleSheet, StatusBar, Alert } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import CalibrationScreen from './src/screens/CalibrationScreen';
 import PlaybackScreen from './src/screens/PlaybackScreen';
-import { VideoCue, createVideoCue } from './src/types/video';
+import { CueChanges, VideoCue, createVideoCue } from './src/types/video';
+import {
+  DEFAULT_MESH_COLS,
+  DEFAULT_MESH_ROWS,
+  buildDefaultMesh,
+  getMeshDimensions,
+} from './src/utils/meshGrid';
+import { DEFAULT_CALIBRATION_SETTINGS, parseStoredCalibration } from './src/utils/calibration';
+import {
+  MAX_OUTPUTS,
+  computeEdgeBlend,
+  createOutput,
+  parseStoredOutputs,
+} from './src/utils/outputs';
+import { createOutputSync, getOutputWindowId, openOutputWindow } from './src/utils/outputWindows';
+import {
+  SHOW_FILE_EXTENSION,
+  ShowImportMode,
+  ShowImportReport,
+  createShowFile,
+  mergeShows,
+  parseShowFile,
+  parseStoredCues,
+  serializeShowFile,
+} from './src/utils/showFile';
+import { exportShowText, pickShowText } from './src/utils/showFileIO';
+import { createProfile, duplicateProfile, parseStoredProfiles } from './src/utils/profiles';
+import { duplicateCue, moveCue, numberBetween, numberCues, sortCuesByNumber } from './src/utils/cues';
+import { StoredHistory, createHistory, getHistoryKey, parseStoredHistory } from './src/utils/history';
+import useMeshHistory from './src/hooks/useMeshHistory';
+import { CalibrationProfile, CalibrationSettings, CornerPin, MeshHistory, ProjectorOutput } from './src/types';
 
 export type MeshPoint = { id: string; x: number; y: number };
 export type Mesh = MeshPoint[];
 
-const DEFAULT_ROWS = 4;
-const DEFAULT_COLS = 4;
-const MAX_HISTORY = 30;
-
-const buildDefaultMesh = (rows: number, cols: number): Mesh => {
-  const points: Mesh = [];
-  for (let r = 0; r < rows; r++) {
-    for (let c = 0; c < cols; c++) {
-      points.push({
-        id: `${r}-${c}`,
-        x: c / (cols - 1),
-        y: r / (rows - 1),
-      });
-    }
-  }
-  return points;
-};
-
-const MESH_KEY = 'concave-mapper-mesh';
+const MESH_KEY = 'concave-mapper-mesh'; // legacy single-output calibration
+const OUTPUTS_KEY = 'concave-mapper-outputs';
 const CUES_KEY = 'concave-mapper-cues';
+const PROFILES_KEY = 'concave-mapper-profiles';
+const ACTIVE_PROFILE_KEY = 'concave-mapper-active-profile';
+
+// Set when this window was opened as a projector output (web)
+const OUTPUT_WINDOW_ID = getOutputWindowId();
+
+// The output a window edits / shows first
+const getPreferredOutput = (loaded: ProjectorOutput[]) =>
+  loaded.find((o) => o.id === OUTPUT_WINDOW_ID) ?? loaded[0];
+
+// Copy the working mesh + settings into an output
+const withCalibration = (
+  output: ProjectorOutput,
+  mesh: Mesh,
+  settings: CalibrationSettings
+): ProjectorOutput => ({ ...output, ...settings, mesh });
 
 export default function App() {
   const [mode, setMode] = useState<'calibration' | 'playback'>('calibration');
-  const [mesh, setMeshInternal] = useState<Mesh>(() =>
-    buildDefaultMesh(DEFAULT_ROWS, DEFAULT_COLS)
+  const [calibrationSettings, setCalibrationSettings] = useState<CalibrationSettings>(
+    DEFAULT_CALIBRATION_SETTINGS
+  );
+  // Undoing a corner pin bake (or auto-calibrate, or a preset) restores the pin
+  const restoreCornerPin = useCallback(
+    (cornerPin: CornerPin) => setCalibrationSettings((prev) => ({ ...prev, cornerPin })),
+    []
   );
+  // Working mesh with labelled undo history
+  const {
+    mesh,
+    preview: previewMesh,
+    commit: commitMesh,
+    undo: handleUndo,
+    redo: handleRedo,
+    jumpTo: handleJumpToHistory,
+    resetHistory,
+    history,
+    canUndo,
+    canRedo,
+  } = useMeshHistory(() => buildDefaultMesh(DEFAULT_MESH_ROWS, DEFAULT_MESH_COLS), restoreCornerPin);
   const [meshLoaded, setMeshLoaded] = useState(false);
+
+  // Projector outputs. `mesh` and `calibrationSettings` are the working copy
+  // of the active output; the others are stored here as-is.
+  const [outputs, setOutputs] = useState<ProjectorOutput[]>(() => [createOutput(0)]);
+  const [activeOutputId, setActiveOutputId] = useState<string>(() => outputs[0].id);
   
+  // Named calibration profiles (each a snapshot of every output)
+  const [profiles, setProfiles] = useState<CalibrationProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const activeProfile = profiles.find((p) => p.id === activeProfileId) ?? null;
+
   // Video cues (playlist)
   const [videoCues, setVideoCues] = useState<VideoCue[]>([]);
   const [currentCueIndex, setCurrentCueIndex] = useState(0);
   
-  // Undo/Redo history
-  const historyRef = useRef<Mesh[]>([buildDefaultMesh(DEFAULT_ROWS, DEFAULT_COLS)]);
-  const historyIndexRef = useRef(0);
-  const [canUndo, setCanUndo] = useState(false);
-  const [canRedo, setCanRedo] = useState(false);
-
   // Current video URI (from current cue)
   const currentVideoUri = videoCues[currentCueIndex]?.uri || null;
 
-  // Update undo/redo state
-  const updateHistoryState = useCallback(() => {
-    setCanUndo(historyIndexRef.current > 0);
-    setCanRedo(historyIndexRef.current < historyRef.current.length - 1);
-  }, []);
+  // All outputs with the working copy folded into the active one
+  const liveOutputs = useMemo(
+    () => outputs.map((o) =>
+      o.id === activeOutputId ? withCalibration(o, mesh, calibrationSettings) : o
+    ),
+    [outputs, activeOutputId, mesh, calibrationSettings]
+  );
+  const activeOutput = liveOutputs.find((o) => o.id === activeOutputId) ?? liveOutputs[0];
+  // Same output as last stored, before the working copy's edits
+  const savedOutput = outputs.find((o) => o.id === activeOutput.id) ?? activeOutput;
+  const activeEdgeBlend = useMemo(
+    () => computeEdgeBlend(liveOutputs, activeOutput.id),
+    [liveOutputs, activeOutput.id]
+  );
 
-  // Set mesh with history tracking
-  const setMesh = useCallback((newMesh: Mesh) => {
-    // Check if mesh actually changed
-    const currentMesh = historyRef.current[historyIndexRef.current];
-    if (JSON.stringify(newMesh) === JSON.stringify(currentMesh)) return;
-
-    // Truncate future history
-    historyRef.current = historyRef.current.slice(0, historyIndexRef.current + 1);
-    
-    // Add new state
-    historyRef.current.push(newMesh);
-    
-    // Limit history size
-    if (historyRef.current.length > MAX_HISTORY) {
-      historyRef.current.shift();
-    } else {
-      historyIndexRef.current++;
+  // Make an output the one being edited (its mesh starts a fresh or restored history)
+  const loadWorkingOutput = useCallback((output: ProjectorOutput, restored?: MeshHistory | null) => {
+    const { mesh: outputMesh, interpolation, masks, brightness, cornerPin, symmetry, subdivisions } = output;
+    setActiveOutputId(output.id);
+    setCalibrationSettings({ interpolation, masks, brightness, cornerPin, symmetry, subdivisions });
+    resetHistory(outputMesh, restored);
+  }, [resetHistory]);
+
+  // Saved history of a profile, if it still matches the output's mesh
+  const readHistory = useCallback(async (profileId: string | null, output: ProjectorOutput) => {
+    try {
+      const stored = await AsyncStorage.getItem(getHistoryKey(profileId));
+      return stored ? parseStoredHistory(stored, output.id, output.mesh) : null;
+    } catch (e) {
+      console.warn('Failed to load history', e);
+      return null;
     }
-    
-    setMeshInternal(newMesh);
-    updateHistoryState();
-  }, [updateHistoryState]);
-
-  // Undo
-  const handleUndo = useCallback(() => {
-    if (historyIndexRef.current > 0) {
-      historyIndexRef.current--;
-      setMeshInternal(historyRef.current[historyIndexRef.current]);
-      updateHistoryState();
+  }, []);
+
+  // Read outputs, migrating a legacy single calibration if needed
+  const loadOutputs = useCallback(async (): Promise<ProjectorOutput[] | null> => {
+    const [storedOutputs, storedMesh] = await Promise.all([
+      AsyncStorage.getItem(OUTPUTS_KEY),
+      AsyncStorage.getItem(MESH_KEY),
+    ]);
+    if (storedOutputs) {
+      const parsed = parseStoredOutputs(storedOutputs);
+      if (parsed.length > 0) return parsed;
     }
-  }, [updateHistoryState]);
-
-  // Redo
-  const handleRedo = useCallback(() => {
-    if (historyIndexRef.current < historyRef.current.length - 1) {
-      historyIndexRef.current++;
-      setMeshInternal(historyRef.current[historyIndexRef.current]);
-      updateHistoryState();
+    if (storedMesh) {
+      return [createOutput(0, parseStoredCalibration(storedMesh))];
     }
-  }, [updateHistoryState]);
+    return null;
+  }, []);
+
+  const applyLoadedOutputs = useCallback((loaded: ProjectorOutput[], restored?: MeshHistory | null) => {
+    setOutputs(loaded);
+    loadWorkingOutput(getPreferredOutput(loaded), restored);
+  }, [loadWorkingOutput]);
 
   // Load saved data
   useEffect(() => {
     const loadData = async () => {
       try {
-        const [storedMesh, storedCues] = await Promise.all([
-          AsyncStorage.getItem(MESH_KEY),
+        const [loadedOutputs, storedCues, storedProfiles, storedActiveProfile] = await Promise.all([
+          loadOutputs(),
           AsyncStorage.getItem(CUES_KEY),
+          AsyncStorage.getItem(PROFILES_KEY),
+          AsyncStorage.getItem(ACTIVE_PROFILE_KEY),
         ]);
         
-        if (storedMesh) {
-          const parsedMesh = JSON.parse(storedMesh);
-          setMeshInternal(parsedMesh);
-          historyRef.current = [parsedMesh];
-          historyIndexRef.current = 0;
+        let profileId: string | null = null;
+        if (storedProfiles) {
+          const loadedProfiles = parseStoredProfiles(storedProfiles);
+          setProfiles(loadedProfiles);
+          if (loadedProfiles.some((p) => p.id === storedActiveProfile)) {
+            profileId = storedActiveProfile;
+            setActiveProfileId(profileId);
+          }
         }
         
-        if (storedCues) {
-          const parsedCues = JSON.parse(storedCues);
-          setVideoCues(parsedCues);
+        if (loadedOutputs) {
+          const restored = OUTPUT_WINDOW_ID
+            ? null
+            : await readHistory(profileId, getPreferredOutput(loadedOutputs));
+          applyLoadedOutputs(loadedOutputs, restored);
         }
         
+        const cues = storedCues ? parseStoredCues(storedCues) : [];
+        setVideoCues(cues);
+        
         // If both mesh and cues are set, default to playback
-        if (storedMesh && storedCues) {
-          const cues = JSON.parse(storedCues);
-          if (cues.length > 0) {
-            setMode('playback');
-          }
+        if (loadedOutputs && cues.length > 0) {
+          setMode('playback');
         }
       } catch (e) {
         console.warn('Failed to load data, using defaults.', e);
       } finally {
         setMeshLoaded(true);
-        updateHistoryState();
       }
     };
     loadData();
-  }, [updateHistoryState]);
+  }, [loadOutputs, applyLoadedOutputs, readHistory]);
 
-  // Save mesh
-  const handleSaveMesh = useCallback(async (newMesh: Mesh) => {
-    setMesh(newMesh);
+  // Keep the history of the current profile across reloads
+  useEffect(() => {
+    if (!meshLoaded || OUTPUT_WINDOW_ID) return;
+    const stored: StoredHistory = { ...history, outputId: activeOutputId };
+    AsyncStorage.setItem(getHistoryKey(activeProfileId), JSON.stringify(stored)).catch((e) =>
+      console.warn('Failed to save history', e)
+    );
+  }, [history, activeProfileId, activeOutputId, meshLoaded]);
+
+  // Output windows follow calibration and cue list saves made in the control window
+  const outputSyncRef = useRef<ReturnType<typeof createOutputSync> | null>(null);
+  useEffect(() => {
+    const sync = createOutputSync(async (message) => {
+      if (!OUTPUT_WINDOW_ID) return;
+      if (message.type !== 'outputs-updated' && message.type !== 'cues-updated') return;
+      try {
+        if (message.type === 'outputs-updated') {
+          const loaded = await loadOutputs();
+          if (loaded) applyLoadedOutputs(loaded);
+        }
+        const storedCues = await AsyncStorage.getItem(CUES_KEY);
+        if (storedCues) setVideoCues(parseStoredCues(storedCues));
+      } catch (e) {
+        console.warn('Failed to reload outputs', e);
+      }
+    });
+    outputSyncRef.current = sync;
+    return () => sync.close();
+  }, [loadOutputs, applyLoadedOutputs]);
+
+  const persistOutputs = useCallback(async (updated: ProjectorOutput[]) => {
+    try {
+      await AsyncStorage.setItem(OUTPUTS_KEY, JSON.stringify(updated));
+      outputSyncRef.current?.post({ type: 'outputs-updated' });
+    } catch (e) {
+      console.warn('Failed to save outputs', e);
+    }
+  }, []);
+
+  const persistProfiles = useCallback(async (updated: CalibrationProfile[], activeId: string | null) => {
+    setProfiles(updated);
+    setActiveProfileId(activeId);
     try {
-      await AsyncStorage.setItem(MESH_KEY, JSON.stringify(newMesh));
+      await AsyncStorage.setItem(PROFILES_KEY, JSON.stringify(updated));
+      if (activeId) await AsyncStorage.setItem(ACTIVE_PROFILE_KEY, activeId);
+      else await AsyncStorage.removeItem(ACTIVE_PROFILE_KEY);
     } catch (e) {
-      console.warn('Failed to save mesh', e);
+      console.warn('Failed to save profiles', e);
     }
-  }, [setMesh]);
+  }, []);
+
+  // Store the active output with this mesh (into the active profile too)
+  const saveActiveOutput = useCallback(async (newMesh: Mesh) => {
+    const updated = outputs.map((o) =>
+      o.id === activeOutputId ? withCalibration(o, newMesh, calibrationSettings) : o
+    );
+    setOutputs(updated);
+    await persistOutputs(updated);
+    if (activeProfileId) {
+      await persistProfiles(
+        profiles.map((p) =>
+          p.id === activeProfileId ? { ...p, outputs: updated, updatedAt: Date.now() } : p
+        ),
+        activeProfileId
+      );
+    }
+  }, [
+    outputs,
+    activeOutputId,
+    calibrationSettings,
+    persistOutputs,
+    activeProfileId,
+    profiles,
+    persistProfiles,
+  ]);
+
+  // Save mesh (and every output's calibration, into the active profile too)
+  const handleSaveMesh = useCallback(async (newMesh: Mesh) => {
+    commitMesh(newMesh);
+    await saveActiveOutput(newMesh);
+  }, [commitMesh, saveActiveOutput]);
+
+  // Profiles: snapshot the current outputs, or make a saved snapshot current
+  const handleSaveProfileAs = useCallback(async (name: string) => {
+    const profile = createProfile(name, liveOutputs);
+    await persistProfiles([profile, ...profiles], profile.id);
+  }, [liveOutputs, profiles, persistProfiles]);
+
+  const handleOverwriteProfile = useCallback(async (id: string) => {
+    await persistProfiles(
+      profiles.map((p) => (p.id === id ? { ...p, outputs: liveOutputs, updatedAt: Date.now() } : p)),
+      id
+    );
+  }, [liveOutputs, profiles, persistProfiles]);
+
+  const handleLoadProfile = useCallback(async (id: string) => {
+    const profile = profiles.find((p) => p.id === id);
+    if (!profile) return;
+    const restored = await readHistory(id, getPreferredOutput(profile.outputs));
+    applyLoadedOutputs(profile.outputs, restored);
+    // Switch the active id in the same update, so the history is saved under it
+    const savingProfiles = persistProfiles(profiles, id);
+    await Promise.all([persistOutputs(profile.outputs), savingProfiles]);
+  }, [profiles, readHistory, applyLoadedOutputs, persistOutputs, persistProfiles]);
+
+  const handleDuplicateProfile = useCallback(async (id: string) => {
+    const profile = profiles.find((p) => p.id === id);
+    if (!profile) return;
+    await persistProfiles([duplicateProfile(profile, profiles), ...profiles], activeProfileId);
+  }, [profiles, activeProfileId, persistProfiles]);
+
+  const handleRenameProfile = useCallback(async (id: string, name: string) => {
+    await persistProfiles(
+      profiles.map((p) => (p.id === id ? { ...p, name } : p)),
+      activeProfileId
+    );
+  }, [profiles, activeProfileId, persistProfiles]);
+
+  // Deleting the active profile keeps the outputs, just unlinked
+  const handleDeleteProfile = useCallback(async (id: string) => {
+    await persistProfiles(
+      profiles.filter((p) => p.id !== id),
+      activeProfileId === id ? null : activeProfileId
+    );
+  }, [profiles, activeProfileId, persistProfiles]);
+
+  // Switch which output is being calibrated
+  const handleSelectOutput = useCallback((id: string) => {
+    if (id === activeOutputId) return;
+    const target = liveOutputs.find((o) => o.id === id);
+    if (!target) return;
+    setOutputs(liveOutputs);
+    loadWorkingOutput(target);
+  }, [activeOutputId, liveOutputs, loadWorkingOutput]);
 
-  // Reset mesh and history
+  const handleAddOutput = useCallback(() => {
+    if (liveOutputs.length >= MAX_OUTPUTS) return;
+    const output = createOutput(liveOutputs.length);
+    setOutputs([...liveOutputs, output]);
+    loadWorkingOutput(output);
+  }, [liveOutputs, loadWorkingOutput]);
+
+  const handleRemoveOutput = useCallback(async (id: string) => {
+    if (liveOutputs.length <= 1) return;
+    const updated = liveOutputs.filter((o) => o.id !== id);
+    setOutputs(updated);
+    if (id === activeOutputId) loadWorkingOutput(updated[0]);
+    await persistOutputs(updated);
+  }, [liveOutputs, activeOutputId, loadWorkingOutput, persistOutputs]);
+
+  // Name, content region and blend gamma (saved with the next Save)
+  const handleUpdateOutput = useCallback(
+    (id: string, changes: Partial<Pick<ProjectorOutput, 'name' | 'region' | 'blendGamma'>>) => {
+      setOutputs((prev) => prev.map((o) => (o.id === id ? { ...o, ...changes } : o)));
+    },
+    []
+  );
+
+  const handleOpenOutputWindow = useCallback((id: string) => {
+    const index = liveOutputs.findIndex((o) => o.id === id);
+    // Screen 0 is usually the control display
+    openOutputWindow(id, index + 1);
+  }, [liveOutputs]);
+
+  // Reset mesh and history (keeps the current density)
   const handleResetMesh = useCallback(async () => {
-    const defaultMesh = buildDefaultMesh(DEFAULT_ROWS, DEFAULT_COLS);
-    historyRef.current = [defaultMesh];
-    historyIndexRef.current = 0;
-    setMeshInternal(defaultMesh);
-    updateHistoryState();
+    const { rows, cols } = getMeshDimensions(mesh);
+    const defaultMesh = buildDefaultMesh(rows, cols);
+    resetHistory(defaultMesh, createHistory(defaultMesh, 'Reset mesh'));
+    await saveActiveOutput(defaultMesh);
+  }, [mesh, saveActiveOutput, resetHistory]);
+
+  // Show file: every output's calibration plus the cue list
+  const handleExportShow = useCallback(async () => {
     try {
-      await AsyncStorage.removeItem(MESH_KEY);
+      const date = new Date().toISOString().slice(0, 10);
+      const show = createShowFile(liveOutputs, videoCues);
+      await exportShowText(serializeShowFile(show), `show-${date}${SHOW_FILE_EXTENSION}`);
     } catch (e) {
-      console.warn('Failed to clear mesh', e);
+      console.warn('Failed to export show', e);
+      Alert.alert('Export Failed', 'The show file could not be created.');
     }
-  }, [updateHistoryState]);
+  }, [liveOutputs, videoCues]);
 
-  // Add video cue
-  const handleVideoSelected = useCallback(async (uri: string, name?: string) => {
-    const newCue = createVideoCue(uri, name);
-    const updatedCues = [...videoCues, newCue];
-    setVideoCues(updatedCues);
-    setCurrentCueIndex(updatedCues.length - 1); // Select the new cue
+  const handleImportShow = useCallback(async (importMode: ShowImportMode): Promise<ShowImportReport | null> => {
+    const text = await pickShowText();
+    if (text === null) return null;
+
+    const result = parseShowFile(text);
+    if (!result.ok) return { ok: false, messages: result.errors };
+
+    const { show, migratedFrom } = result;
+    const merged = importMode === 'merge'
+      ? mergeShows({ outputs: liveOutputs, cues: videoCues }, show)
+      : { outputs: show.outputs, cues: show.cues, droppedOutputs: 0 };
+
+    const cues = numberCues(merged.cues);
+    applyLoadedOutputs(merged.outputs);
+    setVideoCues(cues);
+    if (importMode === 'replace') setCurrentCueIndex(0);
     try {
-      await AsyncStorage.setItem(CUES_KEY, JSON.stringify(updatedCues));
+      await AsyncStorage.setItem(CUES_KEY, JSON.stringify(cues));
     } catch (e) {
       console.warn('Failed to save cues', e);
     }
-  }, [videoCues]);
+    await persistOutputs(merged.outputs);
 
-  // Remove video cue
-  const handleRemoveCue = useCallback(async (cueId: string) => {
-    const updatedCues = videoCues.filter(c => c.id !== cueId);
+    const notes = [
+      `${show.outputs.length} output(s) and ${show.cues.length} cue(s) imported.`,
+      migratedFrom !== null ? `Upgraded from version ${migratedFrom}.` : '',
+      merged.droppedOutputs > 0 ? `${merged.droppedOutputs} output(s) skipped (max ${MAX_OUTPUTS}).` : '',
+    ];
+    return { ok: true, messages: notes.filter(Boolean) };
+  }, [liveOutputs, videoCues, applyLoadedOutputs, persistOutputs]);
+
+  // Store the cue list, keeping the current cue selected wherever it moved
+  const saveCues = useCallback(async (
+    updatedCues: VideoCue[],
+    currentId = videoCues[currentCueIndex]?.id
+  ) => {
+    const index = updatedCues.findIndex((c) => c.id === currentId);
     setVideoCues(updatedCues);
-    if (currentCueIndex >= updatedCues.length) {
-      setCurrentCueIndex(Math.max(0, updatedCues.length - 1));
-    }
+    setCurrentCueIndex(
+      index >= 0 ? index : Math.max(0, Math.min(currentCueIndex, updatedCues.length - 1))
+    );
     try {
       await AsyncStorage.setItem(CUES_KEY, JSON.stringify(updatedCues));
+      outputSyncRef.current?.post({ type: 'cues-updated' });
     } catch (e) {
       console.warn('Failed to save cues', e);
     }
   }, [videoCues, currentCueIndex]);
 
+  // Add video cue (numbered after the last one) and select it
+  const handleVideoSelected = useCallback(async (uri: string, name?: string) => {
+    const newCue: VideoCue = {
+      ...createVideoCue(uri, name),
+      number: numberBetween(videoCues[videoCues.length - 1]?.number),
+    };
+    await saveCues([...videoCues, newCue], newCue.id);
+  }, [videoCues, saveCues]);
+
+  // Remove video cue
+  const handleRemoveCue = useCallback(async (cueId: string) => {
+    await saveCues(videoCues.filter(c => c.id !== cueId));
+  }, [videoCues, saveCues]);
+
   // Toggle cue loop setting
   const handleToggleCueLoop = useCallback(async (cueId: string) => {
-    const updatedCues = videoCues.map(c => 
+    await saveCues(videoCues.map(c => 
       c.id === cueId ? { ...c, loop: !c.loop } : c
-    );
-    setVideoCues(updatedCues);
-    try {
-      await AsyncStorage.setItem(CUES_KEY, JSON.stringify(updatedCues));
-    } catch (e) {
-      console.warn('Failed to save cues', e);
-    }
-  }, [videoCues]);
+    ));
+  }, [videoCues, saveCues]);
+
+  // Rename / renumber / annotate a cue; a new number re-sorts the list
+  const handleUpdateCue = useCallback(async (
+    cueId: string,
+    changes: CueChanges
+  ) => {
+    const updatedCues = videoCues.map((c) => (c.id === cueId ? { ...c, ...changes } : c));
+    await saveCues(changes.number !== undefined ? sortCuesByNumber(updatedCues) : updatedCues);
+  }, [videoCues, saveCues]);
+
+  const handleMoveCue = useCallback(async (from: number, to: number) => {
+    await saveCues(moveCue(videoCues, from, to));
+  }, [videoCues, saveCues]);
+
+  const handleDuplicateCue = useCallback(async (cueId: string) => {
+    await saveCues(duplicateCue(videoCues, cueId));
+  }, [videoCues, saveCues]);
 
   // Navigate cues
   const handleNextCue = useCallback(() => {
@@ -219,15 +491,64 @@ export default function App() {
 
   if (!meshLoaded) return null;
 
+  // Projector output window: playback of one output only
+  if (OUTPUT_WINDOW_ID) {
+    return (
+      <View style={styles.container}>
+        <StatusBar hidden />
+        <PlaybackScreen
+          mesh={mesh}
+          calibrationSettings={calibrationSettings}
+          region={activeOutput.region}
+          edgeBlend={activeEdgeBlend}
+          outputName={activeOutput.name}
+          isOutputWindow
+          videoUri={currentVideoUri}
+          videoCues={videoCues}
+          currentCueIndex={currentCueIndex}
+          onNextCue={handleNextCue}
+          onPrevCue={handlePrevCue}
+          onSelectCue={handleSelectCue}
+          currentCueLoop={videoCues[currentCueIndex]?.loop || false}
+        />
+      </View>
+    );
+  }
+
   return (
     <View style={styles.container}>
       <StatusBar hidden />
       {mode === 'calibration' ? (
         <CalibrationScreen
           mesh={mesh}
-          onMeshChange={setMesh}
+          onMeshChange={commitMesh}
+          onMeshPreview={previewMesh}
           onSaveMesh={handleSaveMesh}
           onResetMesh={handleResetMesh}
+          calibrationSettings={calibrationSettings}
+          onCalibrationSettingsChange={setCalibrationSettings}
+          // Projector outputs
+          outputs={liveOutputs}
+          savedMesh={savedOutput.mesh}
+          activeOutputId={activeOutput.id}
+          edgeBlend={activeEdgeBlend}
+          onSelectOutput={handleSelectOutput}
+          onAddOutput={handleAddOutput}
+          onRemoveOutput={handleRemoveOutput}
+          onUpdateOutput={handleUpdateOutput}
+          onOpenOutputWindow={handleOpenOutputWindow}
+          // Show file
+          onExportShow={handleExportShow}
+          onImportShow={handleImportShow}
+          // Calibration profiles
+          profiles={profiles}
+          activeProfileId={activeProfileId}
+          onSaveProfileAs={handleSaveProfileAs}
+          onOverwriteProfile={handleOverwriteProfile}
+          onLoadProfile={handleLoadProfile}
+          onDuplicateProfile={handleDuplicateProfile}
+          onRenameProfile={handleRenameProfile}
+          onDeleteProfile={handleDeleteProfile}
           onGoToPlayback={() => setMode('playback')}
           videoUri={currentVideoUri}
           onVideoSelected={handleVideoSelected}
@@ -236,16 +557,26 @@ export default function App() {
           canRedo={canRedo}
           onUndo={handleUndo}
           onRedo={handleRedo}
+          history={history}
+          onJumpToHistory={handleJumpToHistory}
           // Cue management
           videoCues={videoCues}
           currentCueIndex={currentCueIndex}
           onSelectCue={handleSelectCue}
           onRemoveCue={handleRemoveCue}
           onToggleCueLoop={handleToggleCueLoop}
+          onUpdateCue={handleUpdateCue}
+          onMoveCue={handleMoveCue}
+          onDuplicateCue={handleDuplicateCue}
         />
       ) : (
         <PlaybackScreen
           mesh={mesh}
+          calibrationSettings={calibrationSettings}
+          region={activeOutput.region}
+          edgeBlend={activeEdgeBlend}
+          outputName={liveOutputs.length > 1 ? activeOutput.name : undefined}
+          profileName={activeProfile?.name}
           onGoToCalibration={() => setMode('calibration')}
           videoUri={currentVideoUri}
           // Cue management
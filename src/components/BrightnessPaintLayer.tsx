@@ -0,0 +1,112 @@
+import React, { useState, useCallback } from 'react';
+import { View, StyleSheet, GestureResponderEvent } from 'react-native';
+import Svg, { Rect, Circle, G } from 'react-native-svg';
+import {
+  BRIGHTNESS_MAP_COLS,
+  BRIGHTNESS_MAP_ROWS,
+  paintBrightnessMap,
+} from '../utils/brightness';
+
+type Size = { width: number; height: number };
+
+type Props = {
+  size: Size;
+  gains: number[] | null; // final gains, shown as a shaded overlay
+  painted?: number[];     // painted map being edited
+  onPaintedChange?: (map: number[]) => void;
+  editable?: boolean;
+  brushRadius?: number;   // normalized to output width
+  brushAmount?: number;   // gain added per stroke step (negative darkens)
+};
+
+/**
+ * BrightnessPaintLayer
+ *
+ * Visualises the brightness compensation map (darker = lower gain) and,
+ * when editable, paints into it with a soft round brush.
+ */
+const BrightnessPaintLayer: React.FC<Props> = ({
+  size,
+  gains,
+  painted,
+  onPaintedChange,
+  editable = false,
+  brushRadius = 0.08,
+  brushAmount = -0.05,
+}) => {
+  const [brushPos, setBrushPos] = useState<{ x: number; y: number } | null>(null);
+
+  const paintAt = useCallback(
+    (e: GestureResponderEvent) => {
+      if (!painted || !onPaintedChange) return;
+
+      const { locationX, locationY } = e.nativeEvent;
+      setBrushPos({ x: locationX, y: locationY });
+      onPaintedChange(
+        paintBrightnessMap(
+          painted,
+          locationX / size.width,
+          locationY / size.height,
+          brushRadius,
+          brushAmount,
+          size.width / size.height
+        )
+      );
+    },
+    [painted, onPaintedChange, size, brushRadius, brushAmount]
+  );
+
+  const handleTouchEnd = useCallback(() => {
+    setBrushPos(null);
+  }, []);
+
+  const renderGains = () => {
+    if (!gains) return null;
+
+    const cellW = size.width / BRIGHTNESS_MAP_COLS;
+    const cellH = size.height / BRIGHTNESS_MAP_ROWS;
+    return gains.map((gain, i) => {
+      if (gain >= 0.999) return null;
+      return (
+        <Rect
+          key={`gain-${i}`}
+          x={(i % BRIGHTNESS_MAP_COLS) * cellW}
+          y={Math.floor(i / BRIGHTNESS_MAP_COLS) * cellH}
+          width={cellW}
+          height={cellH}
+          fill="black"
+          opacity={(1 - gain) * 0.8}
+        />
+      );
+    });
+  };
+
+  return (
+    <View
+      style={StyleSheet.absoluteFill}
+      pointerEvents={editable ? 'auto' : 'none'}
+      onStartShouldSetResponder={() => editable}
+      onMoveShouldSetResponder={() => editable}
+      onResponderGrant={paintAt}
+      onResponderMove={paintAt}
+      onResponderRelease={handleTouchEnd}
+      onResponderTerminate={handleTouchEnd}
+    >
+      <Svg width={size.width} height={size.height} style={StyleSheet.absoluteFill}>
+        <G>{renderGains()}</G>
+        {editable && brushPos && (
+          <Circle
+            cx={brushPos.x}
+            cy={brushPos.y}
+            r={brushRadius * size.width}
+            fill="none"
+            stroke={brushAmount < 0 ? '#ffaa00' : '#ffffff'}
+            strokeWidth={2}
+          />
+        )}
+      </Svg>
+    </View>
+  );
+};
+
+export default BrightnessPaintLayer;
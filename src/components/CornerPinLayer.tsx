@@ -0,0 +1,121 @@
+import React, { useState, useCallback } from 'react';
+import { View, StyleSheet, GestureResponderEvent } from 'react-native';
+import Svg, { Polygon, Circle, G, Text as SvgText } from 'react-native-svg';
+import { CornerPin } from '../types';
+import { isValidCornerPin } from '../utils/homography';
+
+type Size = { width: number; height: number };
+
+type Props = {
+  size: Size;
+  corners: CornerPin;
+  onCornersChange?: (corners: CornerPin) => void;
+  editable?: boolean;
+};
+
+const CORNER_RADIUS = 16;
+const CORNER_HIT_SLOP = 28;
+const CORNER_LABELS = ['TL', 'TR', 'BR', 'BL'];
+
+/**
+ * CornerPinLayer
+ *
+ * Four draggable corners for the perspective pre-warp. Moves that would
+ * fold or twist the quad are ignored.
+ */
+const CornerPinLayer: React.FC<Props> = ({
+  size,
+  corners,
+  onCornersChange,
+  editable = false,
+}) => {
+  const [draggingIndex, setDraggingIndex] = useState<number | null>(null);
+
+  const findNearestCorner = useCallback(
+    (touchX: number, touchY: number): number | null => {
+      let nearest: number | null = null;
+      let minDist = CORNER_HIT_SLOP + CORNER_RADIUS;
+      corners.forEach((c, i) => {
+        const dist = Math.hypot(touchX - c.x * size.width, touchY - c.y * size.height);
+        if (dist < minDist) {
+          minDist = dist;
+          nearest = i;
+        }
+      });
+      return nearest;
+    },
+    [corners, size]
+  );
+
+  const handleTouchStart = useCallback(
+    (e: GestureResponderEvent) => {
+      const { locationX, locationY } = e.nativeEvent;
+      setDraggingIndex(findNearestCorner(locationX, locationY));
+    },
+    [findNearestCorner]
+  );
+
+  const handleTouchMove = useCallback(
+    (e: GestureResponderEvent) => {
+      if (draggingIndex === null || !onCornersChange) return;
+
+      const { locationX, locationY } = e.nativeEvent;
+      const x = Math.max(0, Math.min(size.width, locationX)) / size.width;
+      const y = Math.max(0, Math.min(size.height, locationY)) / size.height;
+      const next = corners.map((c, i) => (i === draggingIndex ? { x, y } : c));
+      if (isValidCornerPin(next)) onCornersChange(next);
+    },
+    [corners, draggingIndex, onCornersChange, size]
+  );
+
+  const handleTouchEnd = useCallback(() => {
+    setDraggingIndex(null);
+  }, []);
+
+  const points = corners.map((c) => `${c.x * size.width},${c.y * size.height}`).join(' ');
+
+  return (
+    <View
+      style={StyleSheet.absoluteFill}
+      pointerEvents={editable ? 'auto' : 'none'}
+      onStartShouldSetResponder={() => editable}
+      onMoveShouldSetResponder={() => editable}
+      onResponderGrant={handleTouchStart}
+      onResponderMove={handleTouchMove}
+      onResponderRelease={handleTouchEnd}
+      onResponderTerminate={handleTouchEnd}
+    >
+      <Svg width={size.width} height={size.height} style={StyleSheet.absoluteFill}>
+        <Polygon points={points} fill="none" stroke="#ffcc00" strokeWidth={2} strokeDasharray="8,4" />
+        {editable &&
+          corners.map((c, i) => {
+            const isActive = i === draggingIndex;
+            return (
+              <G key={CORNER_LABELS[i]}>
+                <Circle
+                  cx={c.x * size.width}
+                  cy={c.y * size.height}
+                  r={CORNER_RADIUS}
+                  fill={isActive ? '#ffcc00' : 'rgba(255, 204, 0, 0.7)'}
+                  stroke="white"
+                  strokeWidth={2}
+                />
+                <SvgText
+                  x={c.x * size.width}
+                  y={c.y * size.height + 4}
+                  fill="black"
+                  fontSize={10}
+                  fontWeight="bold"
+                  textAnchor="middle"
+                >
+                  {CORNER_LABELS[i]}
+                </SvgText>
+              </G>
+            );
+          })}
+      </Svg>
+    </View>
+  );
+};
+
+export default CornerPinLayer;
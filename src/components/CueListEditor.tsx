@@ -0,0 +1,431 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  GestureResponderEvent,
+} from 'react-native';
+import { CueChanges, CuePlayback, VideoCue } from '../types/video';
+import {
+  clampCuePlayback,
+  formatCueNumber,
+  getCueNumber,
+  getCuePlayback,
+  parseCueNumber,
+  parseCueTime,
+} from '../utils/cues';
+
+type Props = {
+  cues: VideoCue[];
+  currentCueIndex: number;
+  onSelectCue: (index: number) => void;
+  onUpdateCue: (cueId: string, changes: CueChanges) => void;
+  onMoveCue: (from: number, to: number) => void;
+  onDuplicateCue: (cueId: string) => void;
+  onRemoveCue: (cueId: string) => void;
+  onToggleCueLoop: (cueId: string) => void;
+};
+
+type RowProps = {
+  cue: VideoCue;
+  number: number;
+  active: boolean;
+  dragOffset: number; // px, while this row is being dragged
+  onSelect: () => void;
+  onUpdate: (changes: CueChanges) => void;
+  onDuplicate: () => void;
+  onRemove: () => void;
+  onToggleLoop: () => void;
+  onDragStart: (e: GestureResponderEvent) => void;
+  onDragMove: (e: GestureResponderEvent) => void;
+  onDragEnd: () => void;
+};
+
+const ROW_HEIGHT = 76; // rows are fixed height so a drag distance maps to a position
+const LIST_MAX_HEIGHT = ROW_HEIGHT * 3;
+
+type PlaybackStepper = 'rate' | 'volume' | 'fadeIn' | 'fadeOut';
+const PLAYBACK_STEPPERS: {
+  key: PlaybackStepper;
+  label: string;
+  step: number;
+  format: (value: number) => string;
+}[] = [
+  { key: 'rate', label: 'Rate', step: 0.05, format: (v) => `${v.toFixed(2)}×` },
+  { key: 'volume', label: 'Vol', step: 0.1, format: (v) => `${Math.round(v * 100)}%` },
+  { key: 'fadeIn', label: 'Fade In', step: 0.1, format: (v) => `${v.toFixed(1)}s` },
+  { key: 'fadeOut', label: 'Fade Out', step: 0.1, format: (v) => `${v.toFixed(1)}s` },
+];
+
+const formatTime = (seconds: number | null) => (seconds === null ? '' : `${seconds}`);
+
+// Trim, speed, volume and fades of one cue
+const CuePlaybackFields: React.FC<{ cue: VideoCue; onUpdate: (changes: CueChanges) => void }> = ({
+  cue,
+  onUpdate,
+}) => {
+  const playback = getCuePlayback(cue);
+  const [inDraft, setInDraft] = useState(formatTime(playback.inPoint));
+  const [outDraft, setOutDraft] = useState(formatTime(playback.outPoint));
+
+  useEffect(() => setInDraft(formatTime(playback.inPoint)), [playback.inPoint]);
+  useEffect(() => setOutDraft(formatTime(playback.outPoint)), [playback.outPoint]);
+
+  const update = (changes: Partial<CuePlayback>) => {
+    const next = clampCuePlayback({ ...playback, ...changes });
+    onUpdate({ playback: next });
+    return next;
+  };
+
+  // Blank in-point means the start; an out-point at or before it means the end
+  const commitTime = (key: 'inPoint' | 'outPoint', text: string) => {
+    const parsed = parseCueTime(text);
+    if (parsed === undefined) {
+      Alert.alert('Cue Trim', 'Enter a time in seconds, e.g. 12.5. Leave Out blank to play to the end.');
+    }
+    const value = parsed === undefined ? playback[key] : key === 'inPoint' ? parsed ?? 0 : parsed;
+    const next = value !== playback[key] ? update({ [key]: value }) : playback;
+    setInDraft(formatTime(next.inPoint));
+    setOutDraft(formatTime(next.outPoint));
+  };
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  return (
+    <View style={styles.playback}>
+      <Text style={styles.playbackLabel}>In</Text>
+      <TextInput
+        style={[styles.input, styles.timeInput]}
+        value={inDraft}
+        onChangeText={setInDraft}
+        onBlur={() => commitTime('inPoint', inDraft)}
+        onSubmitEditing={() => commitTime('inPoint', inDraft)}
+        keyboardType="decimal-pad"
+        placeholder="0"
+        placeholderTextColor="#777"
+      />
+      <Text style={styles.playbackLabel}>Out</Text>
+      <TextInput
+        style={[styles.input, styles.timeInput]}
+        value={outDraft}
+        onChangeText={setOutDraft}
+        onBlur={() => commitTime('outPoint', outDraft)}
+        onSubmitEditing={() => commitTime('outPoint', outDraft)}
+        keyboardType="decimal-pad"
+        placeholder="End"
+        placeholderTextColor="#777"
+      />
+      {PLAYBACK_STEPPERS.map(({ key, label, step, format }) => (
+        <React.Fragment key={key}>
+          <Text style={styles.playbackLabel}>{label}</Text>
+          <TouchableOpacity style={styles.button} onPress={() => update({ [key]: round(playback[key] - step) })}>
+            <Text style={styles.buttonText}>−</Text>
+          </TouchableOpacity>
+          <Text style={styles.playbackValue}>{format(playback[key])}</Text>
+          <TouchableOpacity style={styles.button} onPress={() => update({ [key]: round(playback[key] + step) })}>
+            <Text style={styles.buttonText}>+</Text>
+          </TouchableOpacity>
+        </React.Fragment>
+      ))}
+    </View>
+  );
+};
+
+// One cue; text fields are drafts until they lose focus
+const CueRow: React.FC<RowProps> = ({
+  cue,
+  number,
+  active,
+  dragOffset,
+  onSelect,
+  onUpdate,
+  onDuplicate,
+  onRemove,
+  onToggleLoop,
+  onDragStart,
+  onDragMove,
+  onDragEnd,
+}) => {
+  const [numberDraft, setNumberDraft] = useState(formatCueNumber(number));
+  const [nameDraft, setNameDraft] = useState(cue.name);
+  const [notesDraft, setNotesDraft] = useState(cue.notes ?? '');
+
+  useEffect(() => setNumberDraft(formatCueNumber(number)), [number]);
+  useEffect(() => setNameDraft(cue.name), [cue.name]);
+  useEffect(() => setNotesDraft(cue.notes ?? ''), [cue.notes]);
+
+  const commitNumber = () => {
+    const parsed = parseCueNumber(numberDraft);
+    if (parsed === null) {
+      Alert.alert('Cue Number', 'Use a positive number with up to 3 decimals, e.g. 1, 1.5 or 12.25.');
+      setNumberDraft(formatCueNumber(number));
+      return;
+    }
+    if (parsed !== number) onUpdate({ number: parsed });
+  };
+
+  const commitName = () => {
+    const name = nameDraft.trim();
+    if (!name) {
+      setNameDraft(cue.name);
+      return;
+    }
+    if (name !== cue.name) onUpdate({ name });
+  };
+
+  const commitNotes = () => {
+    if (notesDraft !== (cue.notes ?? '')) onUpdate({ notes: notesDraft });
+  };
+
+  const confirmRemove = () => {
+    Alert.alert('Remove Cue', `Remove "${cue.name}" from the cue list?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Remove', style: 'destructive', onPress: onRemove },
+    ]);
+  };
+
+  return (
+    <View
+      style={[
+        styles.row,
+        active && styles.rowActive,
+        dragOffset !== 0 && styles.rowDragging,
+        { transform: [{ translateY: dragOffset }] },
+      ]}
+    >
+      {/* Drag handle: hold and move up / down */}
+      <View
+        style={styles.handle}
+        onStartShouldSetResponder={() => true}
+        onMoveShouldSetResponder={() => true}
+        onResponderTerminationRequest={() => false}
+        onResponderGrant={onDragStart}
+        onResponderMove={onDragMove}
+        onResponderRelease={onDragEnd}
+        onResponderTerminate={onDragEnd}
+      >
+        <Text style={styles.handleText}>≡</Text>
+      </View>
+
+      <View style={styles.fields}>
+        <View style={styles.line}>
+          <TextInput
+            style={[styles.input, styles.numberInput]}
+            value={numberDraft}
+            onChangeText={setNumberDraft}
+            onBlur={commitNumber}
+            onSubmitEditing={commitNumber}
+            keyboardType="decimal-pad"
+            selectTextOnFocus
+          />
+          <TextInput
+            style={[styles.input, styles.nameInput]}
+            value={nameDraft}
+            onChangeText={setNameDraft}
+            onBlur={commitName}
+            onSubmitEditing={commitName}
+            placeholder="Cue name"
+            placeholderTextColor="#777"
+          />
+          <TouchableOpacity style={styles.button} onPress={onSelect}>
+            <Text style={styles.buttonText}>{active ? '● Current' : '▶ Select'}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.button, cue.loop && styles.buttonActive]} onPress={onToggleLoop}>
+            <Text style={styles.buttonText}>🔁</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.button} onPress={onDuplicate}>
+            <Text style={styles.buttonText}>⧉</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.button, styles.removeButton]} onPress={confirmRemove}>
+            <Text style={styles.buttonText}>🗑</Text>
+          </TouchableOpacity>
+        </View>
+        <TextInput
+          style={[styles.input, styles.notesInput]}
+          value={notesDraft}
+          onChangeText={setNotesDraft}
+          onBlur={commitNotes}
+          onSubmitEditing={commitNotes}
+          placeholder="Notes (standby, timing, who calls it…)"
+          placeholderTextColor="#777"
+        />
+      </View>
+    </View>
+  );
+};
+
+/**
+ * CueListEditor
+ *
+ * Editable cue list: drag the ≡ handle to reorder (the cue is renumbered
+ * to fit its new neighbours), edit numbers, names and notes inline,
+ * duplicate, toggle loop or remove a cue. Changing a number re-sorts the
+ * list. Below it: trim, rate, volume and fades of the current cue.
+ */
+const CueListEditor: React.FC<Props> = ({
+  cues,
+  currentCueIndex,
+  onSelectCue,
+  onUpdateCue,
+  onMoveCue,
+  onDuplicateCue,
+  onRemoveCue,
+  onToggleCueLoop,
+}) => {
+  const [drag, setDrag] = useState<{ index: number; offset: number } | null>(null);
+  const dragStartY = useRef(0);
+
+  const targetIndex = (index: number, offset: number) =>
+    Math.max(0, Math.min(cues.length - 1, index + Math.round(offset / ROW_HEIGHT)));
+
+  const handleDragEnd = () => {
+    if (drag) {
+      const to = targetIndex(drag.index, drag.offset);
+      if (to !== drag.index) onMoveCue(drag.index, to);
+    }
+    setDrag(null);
+  };
+
+  const currentCue = cues[currentCueIndex];
+
+  return (
+    <>
+      <ScrollView style={styles.list} scrollEnabled={!drag}>
+        {cues.map((cue, index) => (
+          <CueRow
+            key={cue.id}
+            cue={cue}
+            number={getCueNumber(cues, index)}
+            active={index === currentCueIndex}
+            dragOffset={drag?.index === index ? drag.offset : 0}
+            onSelect={() => onSelectCue(index)}
+            onUpdate={(changes) => onUpdateCue(cue.id, changes)}
+            onDuplicate={() => onDuplicateCue(cue.id)}
+            onRemove={() => onRemoveCue(cue.id)}
+            onToggleLoop={() => onToggleCueLoop(cue.id)}
+            onDragStart={(e) => {
+              dragStartY.current = e.nativeEvent.pageY;
+              setDrag({ index, offset: 0 });
+            }}
+            onDragMove={(e) => setDrag({ index, offset: e.nativeEvent.pageY - dragStartY.current })}
+            onDragEnd={handleDragEnd}
+          />
+        ))}
+      </ScrollView>
+      {currentCue && (
+        <CuePlaybackFields
+          key={currentCue.id}
+          cue={currentCue}
+          onUpdate={(changes) => onUpdateCue(currentCue.id, changes)}
+        />
+      )}
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  list: {
+    maxHeight: LIST_MAX_HEIGHT,
+  },
+  row: {
+    height: ROW_HEIGHT - 4,
+    marginBottom: 4,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#333',
+    borderRadius: 8,
+    paddingRight: 6,
+  },
+  rowActive: {
+    backgroundColor: '#0066cc',
+  },
+  rowDragging: {
+    opacity: 0.8,
+    borderWidth: 2,
+    borderColor: '#00aaff',
+    zIndex: 1,
+  },
+  handle: {
+    width: 32,
+    alignSelf: 'stretch',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  handleText: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 20,
+  },
+  fields: {
+    flex: 1,
+    gap: 4,
+  },
+  line: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  input: {
+    backgroundColor: '#222',
+    color: 'white',
+    borderRadius: 6,
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    fontSize: 12,
+  },
+  numberInput: {
+    width: 56,
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
+  nameInput: {
+    flex: 1,
+  },
+  notesInput: {
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
+  button: {
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    borderRadius: 6,
+    backgroundColor: '#444',
+  },
+  buttonActive: {
+    backgroundColor: '#226633',
+  },
+  removeButton: {
+    backgroundColor: '#662222',
+  },
+  playback: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 4,
+  },
+  playbackLabel: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 12,
+    marginLeft: 6,
+  },
+  playbackValue: {
+    color: 'white',
+    fontSize: 12,
+    minWidth: 40,
+    textAlign: 'center',
+  },
+  timeInput: {
+    width: 56,
+    textAlign: 'center',
+  },
+  buttonText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
+
+export default CueListEditor;
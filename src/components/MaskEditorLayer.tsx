@@ -0,0 +1,189 @@
+import React, { useState, useCallback } from 'react';
+import { View, StyleSheet, GestureResponderEvent } from 'react-native';
+import Svg, { Path, Rect, G } from 'react-native-svg';
+import { Mask } from '../types';
+import { insertMaskPoint, maskToSvgPath } from '../utils/masks';
+
+type Size = { width: number; height: number };
+
+type Props = {
+  size: Size;
+  masks: Mask[];
+  editable?: boolean;
+  activeMaskId?: string | null;
+  selectedPointIndex?: number | null;
+  onMasksChange?: (masks: Mask[]) => void;
+  onSelectPoint?: (index: number | null) => void;
+};
+
+const VERTEX_SIZE = 14;
+const VERTEX_HIT_SLOP = 22;
+
+/**
+ * MaskEditorLayer
+ *
+ * Shades the areas the masks black out, and (when editable) lets the user
+ * drag the active mask's vertices. Tapping away from a vertex inserts a new
+ * one into the nearest edge.
+ */
+const MaskEditorLayer: React.FC<Props> = ({
+  size,
+  masks,
+  editable = false,
+  activeMaskId,
+  selectedPointIndex,
+  onMasksChange,
+  onSelectPoint,
+}) => {
+  const [draggingIndex, setDraggingIndex] = useState<number | null>(null);
+  const activeMask = masks.find((m) => m.id === activeMaskId);
+
+  const replaceMask = useCallback(
+    (mask: Mask) => {
+      onMasksChange?.(masks.map((m) => (m.id === mask.id ? mask : m)));
+    },
+    [masks, onMasksChange]
+  );
+
+  const findNearestVertex = useCallback(
+    (touchX: number, touchY: number): number | null => {
+      if (!activeMask) return null;
+
+      let nearest: number | null = null;
+      let minDist = VERTEX_HIT_SLOP;
+      activeMask.points.forEach((p, i) => {
+        const dist = Math.hypot(touchX - p.x * size.width, touchY - p.y * size.height);
+        if (dist < minDist) {
+          minDist = dist;
+          nearest = i;
+        }
+      });
+      return nearest;
+    },
+    [activeMask, size]
+  );
+
+  const handleTouchStart = useCallback(
+    (e: GestureResponderEvent) => {
+      if (!activeMask) return;
+
+      const { locationX, locationY } = e.nativeEvent;
+      const vertex = findNearestVertex(locationX, locationY);
+      if (vertex !== null) {
+        setDraggingIndex(vertex);
+        onSelectPoint?.(vertex);
+        return;
+      }
+
+      // Insert a new vertex and start dragging it
+      const { mask, index } = insertMaskPoint(activeMask, {
+        x: locationX / size.width,
+        y: locationY / size.height,
+      });
+      replaceMask(mask);
+      setDraggingIndex(index);
+      onSelectPoint?.(index);
+    },
+    [activeMask, findNearestVertex, onSelectPoint, replaceMask, size]
+  );
+
+  const handleTouchMove = useCallback(
+    (e: GestureResponderEvent) => {
+      if (!activeMask || draggingIndex === null) return;
+
+      const { locationX, locationY } = e.nativeEvent;
+      const x = Math.max(0, Math.min(size.width, locationX)) / size.width;
+      const y = Math.max(0, Math.min(size.height, locationY)) / size.height;
+      replaceMask({
+        ...activeMask,
+        points: activeMask.points.map((p, i) => (i === draggingIndex ? { x, y } : p)),
+      });
+    },
+    [activeMask, draggingIndex, replaceMask, size]
+  );
+
+  const handleTouchEnd = useCallback(() => {
+    setDraggingIndex(null);
+  }, []);
+
+  // Shade hidden areas: outside the union of regular masks, inside inverted ones
+  const renderShading = () => {
+    const included = masks.filter((m) => !m.inverted);
+    const excluded = masks.filter((m) => m.inverted);
+    const shade = 'rgba(0, 0, 0, 0.6)';
+
+    return (
+      <G>
+        {included.length > 0 && (
+          <Path
+            d={[
+              `M0,0 H${size.width} V${size.height} H0 Z`,
+              ...included.map((m) => maskToSvgPath(m, size.width, size.height)),
+            ].join(' ')}
+            fill={shade}
+            fillRule="evenodd"
+          />
+        )}
+        {excluded.map((m) => (
+          <Path key={`shade-${m.id}`} d={maskToSvgPath(m, size.width, size.height)} fill={shade} />
+        ))}
+      </G>
+    );
+  };
+
+  const renderOutlines = () =>
+    masks.map((m) => {
+      const isActive = editable && m.id === activeMaskId;
+      return (
+        <Path
+          key={`outline-${m.id}`}
+          d={maskToSvgPath(m, size.width, size.height)}
+          fill="none"
+          stroke={isActive ? '#ff44cc' : 'rgba(255, 68, 204, 0.4)'}
+          strokeWidth={isActive ? 2 : 1}
+          strokeDasharray={m.inverted ? '6,4' : undefined}
+        />
+      );
+    });
+
+  const renderVertices = () => {
+    if (!editable || !activeMask) return null;
+
+    return activeMask.points.map((p, i) => {
+      const isSelected = i === selectedPointIndex;
+      return (
+        <Rect
+          key={`vertex-${i}`}
+          x={p.x * size.width - VERTEX_SIZE / 2}
+          y={p.y * size.height - VERTEX_SIZE / 2}
+          width={VERTEX_SIZE}
+          height={VERTEX_SIZE}
+          fill={isSelected ? '#ff44cc' : 'rgba(255, 68, 204, 0.6)'}
+          stroke="white"
+          strokeWidth={isSelected ? 2 : 1}
+        />
+      );
+    });
+  };
+
+  return (
+    <View
+      style={StyleSheet.absoluteFill}
+      pointerEvents={editable ? 'auto' : 'none'}
+      onStartShouldSetResponder={() => editable}
+      onMoveShouldSetResponder={() => editable}
+      onResponderGrant={handleTouchStart}
+      onResponderMove={handleTouchMove}
+      onResponderRelease={handleTouchEnd}
+      onResponderTerminate={handleTouchEnd}
+    >
+      <Svg width={size.width} height={size.height} style={StyleSheet.absoluteFill}>
+        {renderShading()}
+        {renderOutlines()}
+        {renderVertices()}
+      </Svg>
+    </View>
+  );
+};
+
+export default MaskEditorLayer;
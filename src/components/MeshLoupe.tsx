@@ -0,0 +1,104 @@
+import React, { useEffect, useRef } from 'react';
+import { View, StyleSheet, Platform } from 'react-native';
+import Svg, { G, Line } from 'react-native-svg';
+
+type Size = { width: number; height: number };
+type Point = { x: number; y: number };
+
+type Props = {
+  size: Size;   // editor size
+  focus: Point; // px under the finger
+  zoom?: number;
+  sourceCanvas?: HTMLCanvasElement | null; // warped video preview (web)
+  // Svg content in editor pixels; `scale` keeps strokes thin when magnified
+  renderContent: (scale: number) => React.ReactNode;
+};
+
+const LOUPE_SIZE = 140;
+const LOUPE_OFFSET = 90; // px from the finger
+const DEFAULT_ZOOM = 4;
+
+/**
+ * MeshLoupe
+ *
+ * Magnified view of the area under the finger while a point is dragged,
+ * drawn away from the finger with a crosshair on the exact spot. Shows the
+ * mesh overlay and, on web, the warped video preview underneath.
+ */
+const MeshLoupe: React.FC<Props> = ({
+  size,
+  focus,
+  zoom = DEFAULT_ZOOM,
+  sourceCanvas,
+  renderContent,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const focusRef = useRef(focus);
+  focusRef.current = focus;
+
+  // Web: copy the magnified region of the preview canvas every frame
+  useEffect(() => {
+    if (Platform.OS !== 'web' || !sourceCanvas) return;
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    let frame = 0;
+    const draw = () => {
+      const span = LOUPE_SIZE / zoom;
+      const { x, y } = focusRef.current;
+      ctx.fillStyle = '#222';
+      ctx.fillRect(0, 0, LOUPE_SIZE, LOUPE_SIZE);
+      ctx.imageSmoothingEnabled = false;
+      ctx.drawImage(
+        sourceCanvas,
+        x - span / 2, y - span / 2, span, span,
+        0, 0, LOUPE_SIZE, LOUPE_SIZE
+      );
+      frame = requestAnimationFrame(draw);
+    };
+    draw();
+    return () => cancelAnimationFrame(frame);
+  }, [sourceCanvas, zoom]);
+
+  // Sit above the finger, or below it near the top edge; stay on screen
+  const above = focus.y - LOUPE_OFFSET - LOUPE_SIZE >= 0;
+  const left = Math.max(0, Math.min(size.width - LOUPE_SIZE, focus.x - LOUPE_SIZE / 2));
+  const top = above ? focus.y - LOUPE_OFFSET - LOUPE_SIZE : focus.y + LOUPE_OFFSET;
+  const half = LOUPE_SIZE / 2;
+
+  return (
+    <View style={[styles.loupe, { left, top }]} pointerEvents="none">
+      {Platform.OS === 'web' && sourceCanvas && (
+        <canvas
+          ref={canvasRef}
+          width={LOUPE_SIZE}
+          height={LOUPE_SIZE}
+          style={{ position: 'absolute', top: 0, left: 0 }}
+        />
+      )}
+      <Svg width={LOUPE_SIZE} height={LOUPE_SIZE} style={StyleSheet.absoluteFill}>
+        <G transform={`translate(${half}, ${half}) scale(${zoom}) translate(${-focus.x}, ${-focus.y})`}>
+          {renderContent(zoom)}
+        </G>
+        <Line x1={half} y1={0} x2={half} y2={LOUPE_SIZE} stroke="#ff3366" strokeWidth={1} />
+        <Line x1={0} y1={half} x2={LOUPE_SIZE} y2={half} stroke="#ff3366" strokeWidth={1} />
+      </Svg>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  loupe: {
+    position: 'absolute',
+    width: LOUPE_SIZE,
+    height: LOUPE_SIZE,
+    borderRadius: LOUPE_SIZE / 2,
+    borderWidth: 2,
+    borderColor: 'white',
+    overflow: 'hidden',
+    backgroundColor: '#222',
+  },
+});
+
+export default MeshLoupe;
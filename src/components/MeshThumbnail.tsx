@@ -0,0 +1,40 @@
+import React, { useMemo } from 'react';
+import Svg, { Polyline, Rect } from 'react-native-svg';
+import { Calibration } from '../types';
+import { applyCornerPin } from '../utils/homography';
+import { getMeshGrid } from '../utils/meshGrid';
+
+type Props = {
+  calibration: Calibration;
+  width: number;
+  height: number;
+};
+
+/**
+ * MeshThumbnail
+ *
+ * Small drawing of a calibration's warped grid (corner pin included),
+ * straight lines between control points. Used to tell profiles apart.
+ */
+const MeshThumbnail: React.FC<Props> = ({ calibration, width, height }) => {
+  const lines = useMemo(() => {
+    const grid = getMeshGrid(applyCornerPin(calibration.mesh, calibration.cornerPin));
+    const toPoints = (points: { x: number; y: number }[]) =>
+      points.map((p) => `${p.x * width},${p.y * height}`).join(' ');
+
+    const rows = grid.map(toPoints);
+    const cols = grid[0].map((_, c) => toPoints(grid.map((row) => row[c])));
+    return [...rows, ...cols];
+  }, [calibration.mesh, calibration.cornerPin, width, height]);
+
+  return (
+    <Svg width={width} height={height}>
+      <Rect x={0} y={0} width={width} height={height} fill="#111" />
+      {lines.map((points, i) => (
+        <Polyline key={i} points={points} fill="none" stroke="#00ffff" strokeWidth={1} />
+      ))}
+    </Svg>
+  );
+};
+
+export default MeshThumbnail;
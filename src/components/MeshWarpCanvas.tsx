@@ -1,5 +1,12 @@
 import React, { useRef, useEffect } from 'react';
 import { View, StyleSheet, Platform } from 'react-native';
+import { applyBlendLayer, drawMeshTriangles } from '../rendering/canvasMeshRenderer';
+import { createBlendLayer, regionToSourceRect } from '../rendering/blendLayer';
+import { FULL_REGION } from '../utils/outputs';
+import { applyMaskLayer, createMaskLayer } from '../rendering/maskLayer';
+import { applyBrightnessLayer, createBrightnessLayer } from '../rendering/brightnessLayer';
+import { DEFAULT_SUBDIVISIONS, triangulateMesh } from '../utils/meshGrid';
+import { ContentRegion, EdgeBlend, InterpolationMode, Mask } from '../types';
 
 type MeshPoint = { id: string; x: number; y: number };
 type Mesh = MeshPoint[];
@@ -9,21 +16,37 @@ type Props = {
   videoUri: string;
   width: number;
   height: number;
-  gridSize?: number; // e.g., 4 means 4x4 grid
+  subdivisions?: number; // sub-quads per cell edge, match the playback renderer
+  interpolation?: InterpolationMode;
+  masks?: Mask[];
+  brightnessGains?: number[] | null;
+  region?: ContentRegion;
+  edgeBlend?: EdgeBlend | null;
+  canvasRef?: React.MutableRefObject<HTMLCanvasElement | null>; // exposes the preview (loupe)
 };
 
+const NO_MASKS: Mask[] = [];
+
 /**
  * MeshWarpCanvas
  * 
  * Renders a video warped according to mesh control points using canvas.
- * Uses bilinear interpolation to map video pixels to warped mesh positions.
+ * Each cell is subdivided (bilinear or spline interpolation), and every
+ * sub-quad is drawn as two triangles with their own affine transform
+ * (see canvasMeshRenderer).
  */
 const MeshWarpCanvas: React.FC<Props> = ({
   mesh,
   videoUri,
   width,
   height,
-  gridSize = 4,
+  subdivisions = DEFAULT_SUBDIVISIONS,
+  interpolation = 'bilinear',
+  masks = NO_MASKS,
+  brightnessGains = null,
+  region = FULL_REGION,
+  edgeBlend = null,
+  canvasRef: externalCanvasRef,
 }) => {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const videoRef = useRef<HTMLVideoElement | null>(null);
@@ -39,125 +62,59 @@ const MeshWarpCanvas: React.FC<Props> = ({
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    // Get mesh point by grid position
-    const getMeshPoint = (row: number, col: number): { x: number; y: number } => {
-      const index = row * gridSize + col;
-      const point = mesh[index];
-      if (point) {
-        return { x: point.x * width, y: point.y * height };
-      }
-      // Fallback to regular grid
-      return {
-        x: (col / (gridSize - 1)) * width,
-        y: (row / (gridSize - 1)) * height,
-      };
-    };
-
-    // Draw a warped quad (one cell of the mesh)
-    const drawWarpedQuad = (
-      srcX: number, srcY: number, srcW: number, srcH: number,
-      p0: { x: number; y: number }, // top-left
-      p1: { x: number; y: number }, // top-right
-      p2: { x: number; y: number }, // bottom-right
-      p3: { x: number; y: number }, // bottom-left
-      subdivisions: number = 4
-    ) => {
-      // Subdivide the quad for smoother warping
-      for (let i = 0; i < subdivisions; i++) {
-        for (let j = 0; j < subdivisions; j++) {
-          const u0 = i / subdivisions;
-          const u1 = (i + 1) / subdivisions;
-          const v0 = j / subdivisions;
-          const v1 = (j + 1) / subdivisions;
-
-          // Bilinear interpolation for each corner of the sub-quad
-          const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
-          const bilinear = (u: number, v: number) => ({
-            x: lerp(lerp(p0.x, p1.x, u), lerp(p3.x, p2.x, u), v),
-            y: lerp(lerp(p0.y, p1.y, u), lerp(p3.y, p2.y, u), v),
-          });
-
-          const q0 = bilinear(u0, v0);
-          const q1 = bilinear(u1, v0);
-          const q2 = bilinear(u1, v1);
-          const q3 = bilinear(u0, v1);
-
-          // Source rectangle for this sub-quad
-          const subSrcX = srcX + srcW * u0;
-          const subSrcY = srcY + srcH * v0;
-          const subSrcW = srcW / subdivisions;
-          const subSrcH = srcH / subdivisions;
-
-          // Draw using triangles
-          ctx.save();
-          ctx.beginPath();
-          ctx.moveTo(q0.x, q0.y);
-          ctx.lineTo(q1.x, q1.y);
-          ctx.lineTo(q2.x, q2.y);
-          ctx.lineTo(q3.x, q3.y);
-          ctx.closePath();
-          ctx.clip();
-
-          // Calculate transform matrix for this quad
-          // Simplified: just draw stretched
-          const minX = Math.min(q0.x, q1.x, q2.x, q3.x);
-          const minY = Math.min(q0.y, q1.y, q2.y, q3.y);
-          const maxX = Math.max(q0.x, q1.x, q2.x, q3.x);
-          const maxY = Math.max(q0.y, q1.y, q2.y, q3.y);
-
-          try {
-            ctx.drawImage(
-              video,
-              subSrcX, subSrcY, subSrcW, subSrcH,
-              minX, minY, maxX - minX, maxY - minY
-            );
-          } catch (e) {
-            // Video not ready
-          }
-          ctx.restore();
-        }
-      }
-    };
+    // Two affine-mapped triangles per sub-quad
+    const triangles = triangulateMesh(mesh, subdivisions, interpolation);
+    const maskLayer = createMaskLayer();
+    const brightnessLayer = createBrightnessLayer();
+    const blendLayer = createBlendLayer();
 
     const render = () => {
       if (!video.paused && !video.ended) {
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
         ctx.clearRect(0, 0, width, height);
 
-        const videoWidth = video.videoWidth || width;
-        const videoHeight = video.videoHeight || height;
-        const cellWidth = videoWidth / (gridSize - 1);
-        const cellHeight = videoHeight / (gridSize - 1);
-
-        // Draw each cell of the mesh
-        for (let row = 0; row < gridSize - 1; row++) {
-          for (let col = 0; col < gridSize - 1; col++) {
-            const p0 = getMeshPoint(row, col);
-            const p1 = getMeshPoint(row, col + 1);
-            const p2 = getMeshPoint(row + 1, col + 1);
-            const p3 = getMeshPoint(row + 1, col);
-
-            drawWarpedQuad(
-              col * cellWidth, row * cellHeight, cellWidth, cellHeight,
-              p0, p1, p2, p3,
-              2 // subdivisions for smoother warp
-            );
-          }
+        try {
+          drawMeshTriangles(
+            ctx,
+            video,
+            triangles,
+            regionToSourceRect(region, video.videoWidth || width, video.videoHeight || height),
+            width,
+            height
+          );
+        } catch (e) {
+          // Video not ready
+        }
+
+        if (edgeBlend) {
+          applyBlendLayer(ctx, blendLayer.update(edgeBlend), triangles, width, height);
+        }
+
+        if (brightnessGains) {
+          applyBrightnessLayer(ctx, brightnessLayer.update(brightnessGains), width, height);
+        }
+        if (masks.length > 0) {
+          applyMaskLayer(ctx, maskLayer.update(masks, width, height));
         }
       }
       animationRef.current = requestAnimationFrame(render);
     };
 
-    video.addEventListener('play', () => {
+    const handlePlay = () => {
+      cancelAnimationFrame(animationRef.current);
       render();
-    });
+    };
+    video.addEventListener('play', handlePlay);
 
-    // Start video
+    // Start video (restart the loop if it is already playing)
+    if (!video.paused) handlePlay();
     video.play().catch(() => {});
 
     return () => {
+      video.removeEventListener('play', handlePlay);
       cancelAnimationFrame(animationRef.current);
     };
-  }, [mesh, videoUri, width, height, gridSize]);
+  }, [mesh, videoUri, width, height, subdivisions, interpolation, masks, brightnessGains, region, edgeBlend]);
 
   if (Platform.OS !== 'web') {
     return <View style={styles.container} />;
@@ -177,7 +134,10 @@ const MeshWarpCanvas: React.FC<Props> = ({
       />
       {/* Canvas for warped output */}
       <canvas
-        ref={canvasRef}
+        ref={(canvas) => {
+          canvasRef.current = canvas;
+          if (externalCanvasRef) externalCanvasRef.current = canvas;
+        }}
         width={width}
         height={height}
         style={{
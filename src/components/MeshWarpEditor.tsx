@@ -1,28 +1,164 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import {
   View,
-  Image,
   StyleSheet,
   LayoutChangeEvent,
   GestureResponderEvent,
   Platform,
 } from 'react-native';
-import Svg, { Line, Circle, G, Rect } from 'react-native-svg';
+import Svg, { Polyline, Polygon, Circle, G, Rect, Line, Text as SvgText } from 'react-native-svg';
 import { Video, ResizeMode } from 'expo-av';
 import MeshWarpCanvas from './MeshWarpCanvas';
+import TestPatternCanvas from './TestPatternCanvas';
+import MaskEditorLayer from './MaskEditorLayer';
+import BrightnessPaintLayer from './BrightnessPaintLayer';
+import CornerPinLayer from './CornerPinLayer';
+import NudgePad from './NudgePad';
+import MeshLoupe from './MeshLoupe';
+import SelectionGizmo from './SelectionGizmo';
+import SelectionToolbar, { SelectionTool } from './SelectionToolbar';
+import {
+  GridKnots,
+  MAX_MESH_SIZE,
+  MIN_MESH_SIZE,
+  MeshAxis,
+  getGridKnots,
+  getMeshDimensions,
+  getMeshGrid,
+  getSurfaceShift,
+  insertMeshLine,
+  parsePointId,
+  removeMeshLine,
+  sampleMeshGrid,
+  subdivideKnots,
+} from '../utils/meshGrid';
+import {
+  IDENTITY_CORNER_PIN,
+  applyCornerPin,
+  applyHomography,
+  computeHomography,
+  invertHomography,
+} from '../utils/homography';
+import {
+  NUDGE_KEY_DIRECTIONS,
+  NUDGE_STEP_SIZES,
+  cyclePointId,
+  nextNudgeStep,
+} from '../utils/nudge';
+import { applySymmetry } from '../utils/symmetry';
+import {
+  DEFAULT_SNAP_SETTINGS,
+  SnapGuide,
+  SnapTargets,
+  isSnapping,
+  snapPosition,
+} from '../utils/snapping';
+import { MIN_DISPLACEMENT_PX, getDisplacements, revertPoints } from '../utils/onionSkin';
+import { CellProblem } from '../utils/meshValidity';
+import {
+  DEFAULT_SOFT_SELECTION,
+  clampSoftRadius,
+  getSoftSelectionMoves,
+} from '../utils/softSelection';
+import {
+  GizmoHandle,
+  getGizmoHandles,
+  getHandleTransform,
+  getSelectionBounds,
+  marqueeToPolygon,
+  pointInPolygon,
+  selectLines,
+  transformPoint,
+} from '../utils/selection';
+import {
+  ContentRegion,
+  CornerPin,
+  EdgeBlend,
+  EditorMode,
+  InterpolationMode,
+  Mask,
+  NudgeStep,
+  SnapSettings,
+  SoftSelection,
+  SymmetryMode,
+  TestPattern,
+} from '../types';
 
 type MeshPoint = { id: string; x: number; y: number };
 type Mesh = MeshPoint[];
 type Size = { width: number; height: number };
+type Point = { x: number; y: number };
+
+const TRANSFORM_LABELS: Record<GizmoHandle, string> = {
+  move: 'Move',
+  scale: 'Scale',
+  rotate: 'Rotate',
+};
+
+// History label subject: "2-3" for one point, "4 points" for a group
+const describePoints = (ids: string[]) => (ids.length === 1 ? ids[0] : `${ids.length} points`);
+
+// What the current touch is doing
+type EditorGesture =
+  | {
+      type: 'point';
+      startPositions: Record<string, Point>; // normalized, for soft selection
+      positions: Record<string, Point> | null; // latest, normalized
+    }
+  | { type: 'pinch'; startDistance: number; startRadius: number }
+  | { type: 'select' }
+  | {
+      type: 'transform';
+      handle: GizmoHandle;
+      start: Point;
+      centroid: Point;
+      startPositions: Record<string, Point>; // editor pixels
+      positions: Record<string, Point> | null; // latest, normalized
+    };
 
 type Props = {
   mesh: Mesh;
-  onMeshChange: (mesh: Mesh) => void;
+  onMeshChange: (mesh: Mesh, label?: string, coalesce?: boolean) => void;
+  onMeshPreview?: (mesh: Mesh) => void; // live update during a gesture, not added to history
   showVideo?: boolean;
   videoSource?: any;
   videoUri?: string | null;
-  gridSource?: any;
+  testPattern?: TestPattern | null; // procedural background when the video is off
   editable?: boolean;
+  subdivisions?: number; // preview warp quality, match the playback renderer
+  interpolation?: InterpolationMode;
+  editMode?: EditorMode;
+  symmetry?: SymmetryMode; // counterparts that follow a dragged point
+  // Proportional editing (pinch to resize the radius)
+  softSelection?: SoftSelection;
+  onSoftSelectionChange?: (soft: SoftSelection) => void;
+  snapSettings?: SnapSettings; // where dragged points snap to
+  // Points the relax command keeps fixed
+  lockedPointIds?: string[];
+  onLockedPointIdsChange?: (ids: string[]) => void;
+  // Precision nudging (normalized units per step)
+  nudgeStepSizes?: Record<NudgeStep, number>;
+  // Perspective pre-warp
+  cornerPin?: CornerPin;
+  onCornerPinChange?: (corners: CornerPin) => void;
+  // Mask editing
+  masks?: Mask[];
+  onMasksChange?: (masks: Mask[]) => void;
+  activeMaskId?: string | null;
+  selectedMaskPoint?: number | null;
+  onSelectMaskPoint?: (index: number | null) => void;
+  // Brightness compensation
+  brightnessGains?: number[] | null;
+  paintedBrightness?: number[];
+  onPaintedBrightnessChange?: (map: number[]) => void;
+  brushAmount?: number;
+  // Onion skin: reference mesh drawn under the live one, with per-point offsets
+  ghostMesh?: Mesh | null;
+  ghostLabel?: string; // for the revert history entry ("saved", a profile name…)
+  invalidCells?: CellProblem[]; // drawn in red, see utils/meshValidity
+  // Multi-output preview
+  region?: ContentRegion;
+  edgeBlend?: EdgeBlend | null;
   // Resize props
   contentSize?: { width: number; height: number };
   onContentSizeChange?: (size: { width: number; height: number }) => void;
@@ -33,6 +169,11 @@ type Props = {
 const HANDLE_RADIUS = 12;
 const HANDLE_HIT_SLOP = 20;
 const RESIZE_HANDLE_SIZE = 24;
+const LINE_SEGMENTS_PER_CELL = 8; // polyline resolution for curved grid lines
+const NO_MASKS: Mask[] = [];
+const NO_LOCKED_POINTS: string[] = [];
+const NO_PROBLEMS: CellProblem[] = [];
+const GIZMO_HANDLES: GizmoHandle[] = ['rotate', 'scale', 'move'];
 
 /**
  * MeshWarpEditor
@@ -43,11 +184,38 @@ const RESIZE_HANDLE_SIZE = 24;
 const MeshWarpEditor: React.FC<Props> = ({
   mesh,
   onMeshChange,
+  onMeshPreview,
   showVideo = false,
   videoSource,
   videoUri,
-  gridSource,
+  testPattern = null,
   editable = true,
+  subdivisions,
+  interpolation = 'bilinear',
+  editMode = 'mesh',
+  symmetry = 'off',
+  softSelection = DEFAULT_SOFT_SELECTION,
+  snapSettings = DEFAULT_SNAP_SETTINGS,
+  onSoftSelectionChange,
+  nudgeStepSizes = NUDGE_STEP_SIZES,
+  lockedPointIds = NO_LOCKED_POINTS,
+  onLockedPointIdsChange,
+  cornerPin = IDENTITY_CORNER_PIN,
+  onCornerPinChange,
+  masks = NO_MASKS,
+  onMasksChange,
+  activeMaskId,
+  selectedMaskPoint,
+  onSelectMaskPoint,
+  brightnessGains = null,
+  paintedBrightness,
+  onPaintedBrightnessChange,
+  brushAmount,
+  ghostMesh = null,
+  ghostLabel = 'reference',
+  invalidCells = NO_PROBLEMS,
+  region,
+  edgeBlend,
   contentSize,
   onContentSizeChange,
   contentOffset,
@@ -57,11 +225,23 @@ const MeshWarpEditor: React.FC<Props> = ({
   const effectiveVideoSource = videoUri ? { uri: videoUri } : videoSource;
   const [containerSize, setContainerSize] = useState<Size | null>(null);
   const [activePointId, setActivePointId] = useState<string | null>(null);
+  // Stays set after the finger lifts, for nudging and group transforms
+  const [selectedPointIds, setSelectedPointIds] = useState<string[]>([]);
+  const [nudgeStep, setNudgeStep] = useState<NudgeStep>('fine');
+  const [selectionTool, setSelectionTool] = useState<SelectionTool>('marquee');
+  const [selectionPath, setSelectionPath] = useState<Point[]>([]);
+  const [activeHandle, setActiveHandle] = useState<GizmoHandle | null>(null);
+  const gestureRef = useRef<EditorGesture | null>(null);
+  const [snapGuides, setSnapGuides] = useState<SnapGuide[]>([]);
+  const previewCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const [activeResizeHandle, setActiveResizeHandle] = useState<string | null>(null);
   const [resizeStartPos, setResizeStartPos] = useState<{ x: number; y: number } | null>(null);
   const [resizeStartSize, setResizeStartSize] = useState<Size | null>(null);
   const [resizeStartOffset, setResizeStartOffset] = useState<{ x: number; y: number } | null>(null);
 
+  // Mesh points are only draggable outside mask editing
+  const meshEditable = editable && editMode === 'mesh';
+
   // Use content size if provided, otherwise use container size
   const size = contentSize || containerSize;
   const offset = contentOffset || { x: 0, y: 0 };
@@ -78,14 +258,35 @@ const MeshWarpEditor: React.FC<Props> = ({
     }
   }, [contentSize, contentOffset, onContentSizeChange, onContentOffsetChange]);
 
+  // Points are shown where they land after the corner pin; drags are
+  // mapped back through the inverse so the stored mesh stays pre-warp
+  const displayMesh = useMemo(() => applyCornerPin(mesh, cornerPin), [mesh, cornerPin]);
+  const inverseCornerPin = useMemo(() => {
+    const m = computeHomography(cornerPin);
+    return m && invertHomography(m);
+  }, [cornerPin]);
+
   // Calculate grid dimensions from mesh
-  const rows = Math.max(...mesh.map((p) => Number(p.id.split('-')[0]))) + 1 || 1;
-  const cols = Math.max(...mesh.map((p) => Number(p.id.split('-')[1]))) + 1 || 1;
+  const { rows, cols } = getMeshDimensions(mesh);
+  const grid = useMemo(() => getMeshGrid(displayMesh), [displayMesh]);
+  const knots = useMemo(() => getGridKnots(grid), [grid]);
 
-  const getPoint = useCallback(
-    (r: number, c: number): MeshPoint | undefined =>
-      mesh.find((p) => p.id === `${r}-${c}`),
-    [mesh]
+  // Ghost goes through the current corner pin so it lines up with the mesh
+  const ghostDisplayMesh = useMemo(
+    () => (ghostMesh ? applyCornerPin(ghostMesh, cornerPin) : null),
+    [ghostMesh, cornerPin]
+  );
+  const ghostGrid = useMemo(
+    () => (ghostDisplayMesh ? getMeshGrid(ghostDisplayMesh) : null),
+    [ghostDisplayMesh]
+  );
+  const ghostKnots = useMemo(() => (ghostGrid ? getGridKnots(ghostGrid) : null), [ghostGrid]);
+  const displacements = useMemo(
+    () =>
+      ghostDisplayMesh && size
+        ? getDisplacements(displayMesh, ghostDisplayMesh, size.width, size.height)
+        : null,
+    [displayMesh, ghostDisplayMesh, size]
   );
 
   const findNearestPoint = useCallback(
@@ -95,7 +296,7 @@ const MeshWarpEditor: React.FC<Props> = ({
       let nearest: string | null = null;
       let minDist = HANDLE_HIT_SLOP + HANDLE_RADIUS;
 
-      for (const point of mesh) {
+      for (const point of displayMesh) {
         const px = point.x * size.width;
         const py = point.y * size.height;
         const dist = Math.sqrt((touchX - px) ** 2 + (touchY - py) ** 2);
@@ -106,114 +307,592 @@ const MeshWarpEditor: React.FC<Props> = ({
       }
       return nearest;
     },
-    [mesh, size]
+    [displayMesh, size]
   );
 
-  const updatePoint = useCallback(
-    (id: string, touchX: number, touchY: number) => {
-      if (!size) return;
-      
-      const clampedX = Math.max(0, Math.min(size.width, touchX));
-      const clampedY = Math.max(0, Math.min(size.height, touchY));
-
-      const newMesh = mesh.map((p) =>
-        p.id === id
-          ? {
-              ...p,
-              x: clampedX / size.width,
-              y: clampedY / size.height,
-            }
-          : p
+  // Write display-space (post corner pin) positions back into the mesh.
+  // With a label the change goes to history; null is a live preview.
+  const applyPositions = useCallback(
+    (positions: Record<string, Point>, label: string | null, coalesce = false) => {
+      const moves: Record<string, Point> = {};
+      for (const [id, target] of Object.entries(positions)) {
+        const clamped = { x: Math.max(0, Math.min(1, target.x)), y: Math.max(0, Math.min(1, target.y)) };
+        moves[id] = inverseCornerPin
+          ? applyHomography(inverseCornerPin, clamped.x, clamped.y)
+          : clamped;
+      }
+      // Mirrored counterparts follow in mesh space, radial rings at the output's aspect
+      const aspect = size && size.height > 0 ? size.width / size.height : 1;
+      const allMoves = applySymmetry(mesh, moves, symmetry, aspect);
+      const newMesh = mesh.map((p) => (allMoves[p.id] ? { ...p, ...allMoves[p.id] } : p));
+      if (label === null && onMeshPreview) onMeshPreview(newMesh);
+      else onMeshChange(newMesh, label ?? undefined, coalesce);
+    },
+    [mesh, onMeshChange, onMeshPreview, inverseCornerPin, symmetry, size]
+  );
+
+  const draggedPoint = activePointId ? displayMesh.find((p) => p.id === activePointId) : undefined;
+
+  // Ignore selected ids that no longer exist (e.g. after a density change)
+  const selectedPoints = useMemo(
+    () => displayMesh.filter((p) => selectedPointIds.includes(p.id)),
+    [displayMesh, selectedPointIds]
+  );
+
+  // Gizmo box in editor pixels (multi-point selections only)
+  const selectionBounds = useMemo(() => {
+    if (!size || selectedPoints.length < 2) return null;
+    return getSelectionBounds(
+      selectedPoints.map((p) => ({ x: p.x * size.width, y: p.y * size.height }))
+    );
+  }, [selectedPoints, size]);
+
+  const nudgeSelected = useCallback(
+    (dx: number, dy: number, step: NudgeStep = nudgeStep) => {
+      if (selectedPoints.length === 0) return;
+      const amount = nudgeStepSizes[step];
+      const positions: Record<string, Point> = {};
+      for (const p of selectedPoints) {
+        positions[p.id] = { x: p.x + dx * amount, y: p.y + dy * amount };
+      }
+      // Repeated nudges of the same points merge into one history entry
+      applyPositions(positions, `Nudge ${describePoints(Object.keys(positions))}`, true);
+    },
+    [selectedPoints, nudgeStep, nudgeStepSizes, applyPositions]
+  );
+
+  const selectLinesOf = useCallback(
+    (axis: 'row' | 'col') => {
+      setSelectedPointIds(selectLines(mesh, selectedPoints.map((p) => p.id), axis));
+    },
+    [mesh, selectedPoints]
+  );
+
+  // Row / column of the first selected point
+  const selectedLine = selectedPoints.length > 0 ? parsePointId(selectedPoints[0].id) : null;
+
+  // Insert after the selected line (before it on the last one); the new
+  // line becomes the selection
+  const handleInsertLine = useCallback(
+    (axis: MeshAxis) => {
+      if (!selectedLine) return;
+      const count = axis === 'row' ? rows : cols;
+      const index = Math.min(selectedLine[axis], count - 2);
+      const newMesh = insertMeshLine(mesh, axis, index, interpolation);
+      if (newMesh === mesh) return;
+      if (__DEV__) {
+        // An insert should never move the image, in either mode
+        for (const mode of ['bilinear', 'spline'] as const) {
+          const shift = getSurfaceShift(mesh, newMesh, mode);
+          if (shift > 1e-6) console.warn(`Insert ${axis} moved the ${mode} surface by`, shift);
+        }
+      }
+      onMeshChange(newMesh, `Insert ${axis}`);
+      setSelectedPointIds(
+        newMesh.filter((p) => parsePointId(p.id)[axis] === index + 1).map((p) => p.id)
       );
-      onMeshChange(newMesh);
     },
-    [mesh, onMeshChange, size]
+    [selectedLine, rows, cols, mesh, interpolation, onMeshChange]
+  );
+
+  const handleRemoveLine = useCallback(
+    (axis: MeshAxis) => {
+      if (!selectedLine) return;
+      const newMesh = removeMeshLine(mesh, axis, selectedLine[axis]);
+      if (newMesh === mesh) return;
+      onMeshChange(newMesh, `Remove ${axis}`);
+      setSelectedPointIds([]);
+    },
+    [selectedLine, mesh, onMeshChange]
+  );
+
+  const handleRevertSelection = useCallback(() => {
+    if (!ghostMesh || selectedPoints.length === 0) return;
+    const ids = selectedPoints.map((p) => p.id);
+    onMeshChange(revertPoints(mesh, ghostMesh, ids), `Revert ${describePoints(ids)} to ${ghostLabel}`);
+  }, [ghostMesh, ghostLabel, selectedPoints, mesh, onMeshChange]);
+
+  const selectionLocked =
+    selectedPoints.length > 0 && selectedPoints.every((p) => lockedPointIds.includes(p.id));
+
+  // Lock the selection, or unlock it when it is all locked already
+  const handleToggleLock = useCallback(() => {
+    if (!onLockedPointIdsChange) return;
+    const ids = selectedPoints.map((p) => p.id);
+    onLockedPointIdsChange(
+      selectionLocked
+        ? lockedPointIds.filter((id) => !ids.includes(id))
+        : [...lockedPointIds, ...ids.filter((id) => !lockedPointIds.includes(id))]
+    );
+  }, [onLockedPointIdsChange, selectedPoints, selectionLocked, lockedPointIds]);
+
+  // Only inner lines can be removed; edges define the source area
+  const canRemoveLine = (axis: MeshAxis) => {
+    if (!selectedLine) return false;
+    const count = axis === 'row' ? rows : cols;
+    return count > MIN_MESH_SIZE && selectedLine[axis] > 0 && selectedLine[axis] < count - 1;
+  };
+
+  // Web: Tab / Shift+Tab cycles the selection, arrows nudge (Shift = coarse),
+  // R / C grow the selection to whole rows / columns
+  useEffect(() => {
+    if (Platform.OS !== 'web' || !meshEditable) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Tab') {
+        e.preventDefault();
+        const next = cyclePointId(mesh, selectedPoints[0]?.id ?? null, e.shiftKey ? -1 : 1);
+        setSelectedPointIds(next ? [next] : []);
+        return;
+      }
+      if (e.key === 'Escape') {
+        setSelectedPointIds([]);
+        return;
+      }
+      if (selectedPoints.length > 0 && (e.key === 'r' || e.key === 'R')) {
+        selectLinesOf('row');
+        return;
+      }
+      if (selectedPoints.length > 0 && (e.key === 'c' || e.key === 'C')) {
+        selectLinesOf('col');
+        return;
+      }
+      const direction = NUDGE_KEY_DIRECTIONS[e.key];
+      if (!direction || selectedPoints.length === 0) return;
+      e.preventDefault();
+      nudgeSelected(direction.dx, direction.dy, e.shiftKey ? 'coarse' : nudgeStep);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [meshEditable, mesh, selectedPoints, nudgeSelected, nudgeStep, selectLinesOf]);
+
+  // Start a group transform from the current selection
+  const beginTransform = useCallback(
+    (handle: GizmoHandle, start: Point) => {
+      if (!size || !selectionBounds) return;
+      const startPositions: Record<string, Point> = {};
+      for (const p of selectedPoints) {
+        startPositions[p.id] = { x: p.x * size.width, y: p.y * size.height };
+      }
+      gestureRef.current = {
+        type: 'transform',
+        handle,
+        start,
+        centroid: selectionBounds.centroid,
+        startPositions,
+        positions: null,
+      };
+      setActiveHandle(handle);
+    },
+    [size, selectionBounds, selectedPoints]
+  );
+
+  // Snap targets for a dragged point, in editor pixels
+  const getSnapTargets = useCallback(
+    (id: string): SnapTargets => {
+      if (!size) return { original: null, xLines: [], yLines: [] };
+      const { row, col } = parsePointId(id);
+      const neighbours = [
+        grid[row - 1]?.[col],
+        grid[row + 1]?.[col],
+        grid[row]?.[col - 1],
+        grid[row]?.[col + 1],
+      ].filter((p): p is MeshPoint => !!p);
+
+      // Undistorted position, through the corner pin like everything else
+      const m = computeHomography(cornerPin);
+      const u = knots.us[col];
+      const v = knots.vs[row];
+      const original = m ? applyHomography(m, u, v) : { x: u, y: v };
+
+      return {
+        original: { x: original.x * size.width, y: original.y * size.height },
+        xLines: neighbours.map((p) => p.x * size.width),
+        yLines: neighbours.map((p) => p.y * size.height),
+      };
+    },
+    [size, grid, knots, cornerPin]
   );
 
   const handleTouchStart = useCallback(
     (e: GestureResponderEvent) => {
-      if (!editable || !size) return;
+      if (!meshEditable || !size) return;
       
       const touch = e.nativeEvent;
-      const pointId = findNearestPoint(touch.locationX, touch.locationY);
+      const start = { x: touch.locationX, y: touch.locationY };
+
+      // Gizmo handles take priority over the points under them
+      if (selectionBounds) {
+        const handles = getGizmoHandles(selectionBounds);
+        for (const handle of GIZMO_HANDLES) {
+          const h = handles[handle];
+          if (Math.hypot(start.x - h.x, start.y - h.y) < HANDLE_HIT_SLOP) {
+            beginTransform(handle, start);
+            return;
+          }
+        }
+      }
+
+      const pointId = findNearestPoint(start.x, start.y);
+      if (pointId && selectionBounds && selectedPointIds.includes(pointId)) {
+        // Dragging any selected point moves the whole group
+        beginTransform('move', start);
+        return;
+      }
       if (pointId) {
+        setSelectedPointIds([pointId]);
         setActivePointId(pointId);
+        const startPositions: Record<string, Point> = {};
+        for (const p of displayMesh) startPositions[p.id] = { x: p.x, y: p.y };
+        gestureRef.current = { type: 'point', startPositions, positions: null };
+        return;
       }
+
+      // Empty space: marquee / lasso selection
+      gestureRef.current = { type: 'select' };
+      setSelectionPath([start]);
     },
-    [editable, findNearestPoint, size]
+    [meshEditable, findNearestPoint, size, selectionBounds, selectedPointIds, beginTransform, displayMesh]
   );
 
   const handleTouchMove = useCallback(
     (e: GestureResponderEvent) => {
-      if (!editable || !activePointId || !size) return;
+      const gesture = gestureRef.current;
+      if (!meshEditable || !gesture || !size) return;
       
       const touch = e.nativeEvent;
-      updatePoint(activePointId, touch.locationX, touch.locationY);
+      const current = { x: touch.locationX, y: touch.locationY };
+
+      // Two fingers resize the soft-selection radius
+      const touches = touch.touches ?? [];
+      if (softSelection.enabled && onSoftSelectionChange && touches.length >= 2) {
+        const distance = Math.hypot(
+          touches[0].pageX - touches[1].pageX,
+          touches[0].pageY - touches[1].pageY
+        );
+        if (gesture.type !== 'pinch') {
+          gestureRef.current = { type: 'pinch', startDistance: distance, startRadius: softSelection.radius };
+          setActivePointId(null);
+          setSelectionPath([]);
+        } else if (gesture.startDistance > 0) {
+          onSoftSelectionChange({
+            ...softSelection,
+            radius: clampSoftRadius(gesture.startRadius * (distance / gesture.startDistance)),
+          });
+        }
+        return;
+      }
+      if (gesture.type === 'pinch') return;
+
+      if (gesture.type === 'point') {
+        if (!activePointId) return;
+        const snapped = isSnapping(snapSettings)
+          ? snapPosition(current, getSnapTargets(activePointId), snapSettings)
+          : { point: current, guides: [] };
+        setSnapGuides(snapped.guides);
+
+        const target = { x: snapped.point.x / size.width, y: snapped.point.y / size.height };
+        const positions = softSelection.enabled
+          ? getSoftSelectionMoves(
+              gesture.startPositions,
+              activePointId,
+              target,
+              softSelection,
+              size.width / size.height
+            )
+          : { [activePointId]: target };
+        gesture.positions = positions;
+        applyPositions(positions, null);
+        return;
+      }
+
+      if (gesture.type === 'select') {
+        setSelectionPath((path) =>
+          selectionTool === 'lasso' ? [...path, current] : [path[0], current]
+        );
+        return;
+      }
+
+      const transform = getHandleTransform(gesture.handle, gesture.centroid, gesture.start, current);
+      const positions: Record<string, Point> = {};
+      for (const [id, p] of Object.entries(gesture.startPositions)) {
+        const moved = transformPoint(p, gesture.centroid, transform);
+        positions[id] = { x: moved.x / size.width, y: moved.y / size.height };
+      }
+      gesture.positions = positions;
+      applyPositions(positions, null);
     },
-    [editable, activePointId, updatePoint, size]
+    [
+      meshEditable,
+      activePointId,
+      size,
+      selectionTool,
+      applyPositions,
+      softSelection,
+      onSoftSelectionChange,
+      snapSettings,
+      getSnapTargets,
+    ]
   );
 
   const handleTouchEnd = useCallback(() => {
+    const gesture = gestureRef.current;
+    gestureRef.current = null;
     setActivePointId(null);
-  }, []);
+    setActiveHandle(null);
+    setSnapGuides([]);
+
+    // A whole drag or group transform lands in history as one step
+    if (gesture?.type === 'point' && gesture.positions && activePointId) {
+      applyPositions(gesture.positions, `Move ${activePointId}`);
+    }
+    if (gesture?.type === 'transform' && gesture.positions) {
+      const ids = Object.keys(gesture.startPositions);
+      applyPositions(gesture.positions, `${TRANSFORM_LABELS[gesture.handle]} ${describePoints(ids)}`);
+    }
+
+    if (gesture?.type === 'select' && size) {
+      const path = selectionPath;
+      setSelectionPath([]);
+      const first = path[0];
+      const last = path[path.length - 1];
+      const isTap = !first || Math.hypot(last.x - first.x, last.y - first.y) < HANDLE_RADIUS;
+      if (isTap) {
+        setSelectedPointIds([]);
+        return;
+      }
+      const polygon = selectionTool === 'lasso' ? path : marqueeToPolygon(first, last);
+      setSelectedPointIds(
+        displayMesh
+          .filter((p) => pointInPolygon({ x: p.x * size.width, y: p.y * size.height }, polygon))
+          .map((p) => p.id)
+      );
+    }
+  }, [applyPositions, activePointId, size, selectionPath, selectionTool, displayMesh]);
 
-  // Render mesh lines
-  const renderLines = () => {
+  // Render grid lines, following the same interpolation as the warp
+  const renderGridLines = (
+    lineGrid: MeshPoint[][],
+    lineKnots: GridKnots,
+    key: string,
+    stroke: string,
+    scale: number,
+    dashed = false
+  ) => {
     if (!size) return null;
-    
+    const lineRows = lineGrid.length;
+    const lineCols = lineGrid[0]?.length ?? 0;
+    if (lineRows < 2 || lineCols < 2) return null;
+
     const lines: React.ReactNode[] = [];
+    const toPoints = (samples: { x: number; y: number }[]) =>
+      samples.map((p) => `${p.x * size.width},${p.y * size.height}`).join(' ');
+    const lineProps = {
+      fill: 'none',
+      stroke,
+      strokeWidth: 2 / scale,
+      strokeDasharray: dashed ? `${6 / scale},${4 / scale}` : undefined,
+    };
 
-    for (let r = 0; r < rows; r++) {
-      for (let c = 0; c < cols; c++) {
-        const p = getPoint(r, c);
-        const pRight = c < cols - 1 ? getPoint(r, c + 1) : undefined;
-        const pDown = r < rows - 1 ? getPoint(r + 1, c) : undefined;
-
-        if (p && pRight) {
-          lines.push(
-            <Line
-              key={`h-${r}-${c}`}
-              x1={p.x * size.width}
-              y1={p.y * size.height}
-              x2={pRight.x * size.width}
-              y2={pRight.y * size.height}
-              stroke="rgba(0, 255, 255, 0.6)"
-              strokeWidth={2}
-            />
-          );
-        }
-        if (p && pDown) {
-          lines.push(
-            <Line
-              key={`v-${r}-${c}`}
-              x1={p.x * size.width}
-              y1={p.y * size.height}
-              x2={pDown.x * size.width}
-              y2={pDown.y * size.height}
-              stroke="rgba(0, 255, 255, 0.6)"
-              strokeWidth={2}
-            />
-          );
-        }
-      }
+    // Horizontal lines (one per row)
+    const lineUs = subdivideKnots(lineKnots.us, LINE_SEGMENTS_PER_CELL);
+    for (let r = 0; r < lineRows; r++) {
+      const samples = lineUs.map((u) => sampleMeshGrid(lineGrid, u, lineKnots.vs[r], interpolation, lineKnots));
+      lines.push(<Polyline key={`${key}-h-${r}`} points={toPoints(samples)} {...lineProps} />);
+    }
+
+    // Vertical lines (one per column)
+    const lineVs = subdivideKnots(lineKnots.vs, LINE_SEGMENTS_PER_CELL);
+    for (let c = 0; c < lineCols; c++) {
+      const samples = lineVs.map((v) => sampleMeshGrid(lineGrid, lineKnots.us[c], v, interpolation, lineKnots));
+      lines.push(<Polyline key={`${key}-v-${c}`} points={toPoints(samples)} {...lineProps} />);
     }
     return lines;
   };
 
+  const renderLines = (scale = 1) => renderGridLines(grid, knots, 'mesh', 'rgba(0, 255, 255, 0.6)', scale);
+
+  const renderGhostLines = (scale = 1) =>
+    ghostGrid && ghostKnots
+      ? renderGridLines(ghostGrid, ghostKnots, 'ghost', 'rgba(255, 255, 255, 0.35)', scale, true)
+      : null;
+
+  // Tethers from the ghost to every moved point; selected / dragged points
+  // also get their offset in pixels
+  const renderDisplacements = (scale = 1) => {
+    if (!size || !ghostDisplayMesh || !displacements) return null;
+    const ghostById = new Map(ghostDisplayMesh.map((p) => [p.id, p]));
+
+    return displayMesh.map((p) => {
+      const ghost = ghostById.get(p.id);
+      const distance = displacements[p.id];
+      if (!ghost || distance === undefined || distance < MIN_DISPLACEMENT_PX) return null;
+      const labelled = p.id === activePointId || selectedPointIds.includes(p.id);
+      return (
+        <G key={`offset-${p.id}`}>
+          <Line
+            x1={ghost.x * size.width}
+            y1={ghost.y * size.height}
+            x2={p.x * size.width}
+            y2={p.y * size.height}
+            stroke="#ffaa33"
+            strokeWidth={1.5 / scale}
+          />
+          <Circle cx={ghost.x * size.width} cy={ghost.y * size.height} r={3 / scale} fill="#ffaa33" />
+          {labelled && (
+            <SvgText
+              x={p.x * size.width + (HANDLE_RADIUS + 10) / scale}
+              y={p.y * size.height - (HANDLE_RADIUS + 4) / scale}
+              fill="#ffaa33"
+              fontSize={12 / scale}
+              fontWeight="bold"
+            >
+              {`Δ ${distance.toFixed(1)} px`}
+            </SvgText>
+          )}
+        </G>
+      );
+    });
+  };
+
+  // Cells that will render as garbage, shaded red
+  const renderInvalidCells = (scale = 1) => {
+    if (!size || invalidCells.length === 0) return null;
+    return invalidCells.map((cell) => (
+      <Polygon
+        key={`invalid-${cell.row}-${cell.col}`}
+        points={cell.corners.map((p) => `${p.x * size.width},${p.y * size.height}`).join(' ')}
+        fill="rgba(255, 40, 40, 0.35)"
+        stroke="#ff2828"
+        strokeWidth={2 / scale}
+      />
+    ));
+  };
+
+  // Mirror axes (through the mesh centre, following the corner pin)
+  const renderSymmetryGuides = () => {
+    if (!size || !meshEditable || symmetry === 'off') return null;
+
+    const m = computeHomography(cornerPin);
+    const toScreen = (x: number, y: number) => {
+      const p = m ? applyHomography(m, x, y) : { x, y };
+      return `${p.x * size.width},${p.y * size.height}`;
+    };
+    const guide = (key: string, points: [number, number][]) => (
+      <Polyline
+        key={key}
+        points={points.map(([x, y]) => toScreen(x, y)).join(' ')}
+        fill="none"
+        stroke="rgba(255, 120, 255, 0.7)"
+        strokeWidth={1}
+        strokeDasharray="8,6"
+      />
+    );
+
+    const guides: React.ReactNode[] = [];
+    if (symmetry === 'horizontal' || symmetry === 'quad') {
+      guides.push(guide('axis-v', [[0.5, 0], [0.5, 1]]));
+    }
+    if (symmetry === 'vertical' || symmetry === 'quad') {
+      guides.push(guide('axis-h', [[0, 0.5], [1, 0.5]]));
+    }
+    if (symmetry === 'radial') {
+      guides.push(guide('axis-v', [[0.5, 0], [0.5, 1]]));
+      guides.push(guide('axis-h', [[0, 0.5], [1, 0.5]]));
+      guides.push(guide('axis-d1', [[0, 0], [1, 1]]));
+      guides.push(guide('axis-d2', [[1, 0], [0, 1]]));
+    }
+    return guides;
+  };
+
+  // Soft-selection radius around the point being dragged
+  const renderSoftSelectionRadius = () => {
+    if (!size || !meshEditable || !softSelection.enabled) return null;
+    const dragged = displayMesh.find((p) => p.id === activePointId) ?? selectedPoints[0];
+    if (!dragged || (!activePointId && selectedPoints.length !== 1)) return null;
+
+    const radius = softSelection.radius * size.width;
+    return (
+      <G>
+        <Circle
+          cx={dragged.x * size.width}
+          cy={dragged.y * size.height}
+          r={radius}
+          fill="rgba(255, 140, 0, 0.08)"
+          stroke="#ff8c00"
+          strokeWidth={activePointId ? 2 : 1}
+          strokeDasharray={activePointId ? undefined : '6,4'}
+        />
+        <Circle
+          cx={dragged.x * size.width}
+          cy={dragged.y * size.height}
+          r={radius / 2}
+          fill="none"
+          stroke="rgba(255, 140, 0, 0.4)"
+          strokeWidth={1}
+          strokeDasharray="2,4"
+        />
+      </G>
+    );
+  };
+
+  // Lines / point the dragged point snapped to
+  const renderSnapGuides = (scale = 1) => {
+    if (!size || snapGuides.length === 0) return null;
+
+    return snapGuides.map((guide, i) => {
+      const stroke = { stroke: '#ff3366', strokeWidth: 1 / scale, strokeDasharray: `${4 / scale},${4 / scale}` };
+      if (guide.type === 'point') {
+        return <Circle key={`snap-${i}`} cx={guide.x} cy={guide.y} r={6 / scale} fill="none" {...stroke} />;
+      }
+      return guide.type === 'x' ? (
+        <Line key={`snap-${i}`} x1={guide.x} y1={0} x2={guide.x} y2={size.height} {...stroke} />
+      ) : (
+        <Line key={`snap-${i}`} x1={0} y1={guide.y} x2={size.width} y2={guide.y} {...stroke} />
+      );
+    });
+  };
+
   // Render draggable handles
-  const renderHandles = () => {
-    if (!size || !editable) return null;
+  const renderHandles = (scale = 1) => {
+    if (!size || !meshEditable) return null;
 
-    return mesh.map((p) => {
+    return displayMesh.map((p) => {
       const isActive = activePointId === p.id;
+      const isSelected = selectedPointIds.includes(p.id);
+      const isLocked = lockedPointIds.includes(p.id);
       return (
         <G key={p.id}>
+          {/* Square marks a locked point */}
+          {isLocked && (
+            <Rect
+              x={p.x * size.width - (HANDLE_RADIUS + 3) / scale}
+              y={p.y * size.height - (HANDLE_RADIUS + 3) / scale}
+              width={(2 * HANDLE_RADIUS + 6) / scale}
+              height={(2 * HANDLE_RADIUS + 6) / scale}
+              fill="none"
+              stroke="#ff66cc"
+              strokeWidth={2 / scale}
+            />
+          )}
+          {/* Selection ring, kept after the finger lifts */}
+          {isSelected && (
+            <Circle
+              cx={p.x * size.width}
+              cy={p.y * size.height}
+              r={(HANDLE_RADIUS + 7) / scale}
+              fill="none"
+              stroke="#ffcc00"
+              strokeWidth={2 / scale}
+            />
+          )}
           {/* Outer glow for active point */}
           {isActive && (
             <Circle
               cx={p.x * size.width}
               cy={p.y * size.height}
-              r={HANDLE_RADIUS + 4}
+              r={(HANDLE_RADIUS + 4) / scale}
               fill="rgba(0, 255, 255, 0.3)"
             />
           )}
@@ -221,10 +900,10 @@ const MeshWarpEditor: React.FC<Props> = ({
           <Circle
             cx={p.x * size.width}
             cy={p.y * size.height}
-            r={HANDLE_RADIUS}
-            fill={isActive ? '#00ffff' : 'rgba(0, 200, 255, 0.9)'}
+            r={HANDLE_RADIUS / scale}
+            fill={isActive || isSelected ? '#00ffff' : 'rgba(0, 200, 255, 0.9)'}
             stroke="white"
-            strokeWidth={2}
+            strokeWidth={2 / scale}
           />
         </G>
       );
@@ -235,8 +914,8 @@ const MeshWarpEditor: React.FC<Props> = ({
     <View
       style={styles.container}
       onLayout={handleLayout}
-      onStartShouldSetResponder={() => editable}
-      onMoveShouldSetResponder={() => editable}
+      onStartShouldSetResponder={() => meshEditable}
+      onMoveShouldSetResponder={() => meshEditable}
       onResponderGrant={handleTouchStart}
       onResponderMove={handleTouchMove}
       onResponderRelease={handleTouchEnd}
@@ -244,16 +923,22 @@ const MeshWarpEditor: React.FC<Props> = ({
     >
       {size && (
         <>
-          {/* Background: either grid or warped video */}
+          {/* Background: warped video, warped test pattern or plain */}
           {showVideo && effectiveVideoSource ? (
             Platform.OS === 'web' ? (
               // Web: Use canvas-based mesh warping
               <MeshWarpCanvas
-                mesh={mesh}
+                canvasRef={previewCanvasRef}
+                mesh={displayMesh}
                 videoUri={effectiveVideoSource.uri}
                 width={size.width}
                 height={size.height}
-                gridSize={4}
+                subdivisions={subdivisions}
+                interpolation={interpolation}
+                masks={masks}
+                brightnessGains={brightnessGains}
+                region={region}
+                edgeBlend={edgeBlend}
               />
             ) : (
               <Video
@@ -271,17 +956,15 @@ const MeshWarpEditor: React.FC<Props> = ({
                 isMuted
               />
             )
-          ) : gridSource ? (
-            <Image
-              source={gridSource}
-              style={{ 
-                position: 'absolute',
-                top: 0,
-                left: 0,
-                width: size.width, 
-                height: size.height 
-              }}
-              resizeMode="stretch"
+          ) : testPattern ? (
+            <TestPatternCanvas
+              canvasRef={previewCanvasRef}
+              mesh={displayMesh}
+              pattern={testPattern}
+              width={size.width}
+              height={size.height}
+              subdivisions={subdivisions}
+              interpolation={interpolation}
             />
           ) : (
             // Default dark background
@@ -294,9 +977,115 @@ const MeshWarpEditor: React.FC<Props> = ({
             height={size.height}
             style={StyleSheet.absoluteFill}
           >
+            {renderGhostLines()}
+            {renderInvalidCells()}
             {renderLines()}
+            {renderDisplacements()}
+            {renderSymmetryGuides()}
+            {renderSoftSelectionRadius()}
+            {renderSnapGuides()}
             {renderHandles()}
+            {meshEditable && selectionBounds && (
+              <SelectionGizmo bounds={selectionBounds} activeHandle={activeHandle} />
+            )}
+            {selectionPath.length > 1 && (
+              <Polygon
+                points={(selectionTool === 'lasso'
+                  ? selectionPath
+                  : marqueeToPolygon(selectionPath[0], selectionPath[selectionPath.length - 1])
+                )
+                  .map((p) => `${p.x},${p.y}`)
+                  .join(' ')}
+                fill="rgba(255, 204, 0, 0.1)"
+                stroke="#ffcc00"
+                strokeWidth={1}
+                strokeDasharray="4,4"
+              />
+            )}
           </Svg>
+
+          {/* Corner pin quad, editable in corners mode */}
+          {editMode === 'corners' && (
+            <CornerPinLayer
+              size={size}
+              corners={cornerPin}
+              onCornersChange={onCornerPinChange}
+              editable={editable}
+            />
+          )}
+
+          {/* Brightness map (the video preview already applies it) */}
+          {editMode === 'brightness' && (
+            <BrightnessPaintLayer
+              size={size}
+              gains={showVideo ? null : brightnessGains}
+              painted={paintedBrightness}
+              onPaintedChange={onPaintedBrightnessChange}
+              editable={editable && !!paintedBrightness}
+              brushAmount={brushAmount}
+            />
+          )}
+
+          {/* Mask shading, editable in mask mode */}
+          {(masks.length > 0 || editMode === 'mask') && (
+            <MaskEditorLayer
+              size={size}
+              masks={masks}
+              editable={editable && editMode === 'mask'}
+              activeMaskId={activeMaskId}
+              selectedPointIndex={selectedMaskPoint}
+              onMasksChange={onMasksChange}
+              onSelectPoint={onSelectMaskPoint}
+            />
+          )}
+
+          {/* Magnified view of the point being dragged */}
+          {meshEditable && draggedPoint && (
+            <MeshLoupe
+              size={size}
+              focus={{ x: draggedPoint.x * size.width, y: draggedPoint.y * size.height }}
+              sourceCanvas={(showVideo && effectiveVideoSource) || testPattern ? previewCanvasRef.current : null}
+              renderContent={(scale) => (
+                <>
+                  {renderGhostLines(scale)}
+                  {renderInvalidCells(scale)}
+                  {renderLines(scale)}
+                  {renderDisplacements(scale)}
+                  {renderSnapGuides(scale)}
+                  {renderHandles(scale)}
+                </>
+              )}
+            />
+          )}
+
+          {/* Selection tools and D-pad for the selected points */}
+          {meshEditable && (
+            <SelectionToolbar
+              tool={selectionTool}
+              onToolChange={setSelectionTool}
+              hasSelection={selectedPoints.length > 0}
+              onSelectRow={() => selectLinesOf('row')}
+              onSelectColumn={() => selectLinesOf('col')}
+              onSelectAll={() => setSelectedPointIds(mesh.map((p) => p.id))}
+              canInsertRow={rows < MAX_MESH_SIZE}
+              canInsertColumn={cols < MAX_MESH_SIZE}
+              canRemoveRow={canRemoveLine('row')}
+              canRemoveColumn={canRemoveLine('col')}
+              onInsertLine={handleInsertLine}
+              onRemoveLine={handleRemoveLine}
+              onRevert={ghostMesh ? handleRevertSelection : undefined}
+              selectionLocked={selectionLocked}
+              onToggleLock={onLockedPointIdsChange ? handleToggleLock : undefined}
+            />
+          )}
+          {meshEditable && selectedPoints.length > 0 && (
+            <NudgePad
+              step={nudgeStep}
+              onNudge={(dx, dy) => nudgeSelected(dx, dy)}
+              onCycleStep={() => setNudgeStep(nextNudgeStep)}
+              onDeselect={() => setSelectedPointIds([])}
+            />
+          )}
         </>
       )}
     </View>
@@ -0,0 +1,96 @@
+import React from 'react';
+import { View, StyleSheet, TouchableOpacity, Text } from 'react-native';
+import { NudgeStep } from '../types';
+import { NUDGE_STEP_LABELS } from '../utils/nudge';
+
+type Props = {
+  step: NudgeStep;
+  onNudge: (dx: number, dy: number) => void;
+  onCycleStep: () => void;
+  onDeselect: () => void;
+};
+
+/**
+ * NudgePad
+ *
+ * On-screen D-pad for moving the selected mesh point by a fixed step.
+ * The centre button cycles the step size.
+ */
+const NudgePad: React.FC<Props> = ({ step, onNudge, onCycleStep, onDeselect }) => (
+  <View style={styles.container}>
+    <View style={styles.row}>
+      <View style={styles.spacer} />
+      <TouchableOpacity style={styles.button} onPress={() => onNudge(0, -1)}>
+        <Text style={styles.buttonText}>▲</Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={[styles.button, styles.closeButton]} onPress={onDeselect}>
+        <Text style={styles.buttonText}>✕</Text>
+      </TouchableOpacity>
+    </View>
+    <View style={styles.row}>
+      <TouchableOpacity style={styles.button} onPress={() => onNudge(-1, 0)}>
+        <Text style={styles.buttonText}>◀</Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={[styles.button, styles.stepButton]} onPress={onCycleStep}>
+        <Text style={styles.stepText}>{NUDGE_STEP_LABELS[step]}</Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.button} onPress={() => onNudge(1, 0)}>
+        <Text style={styles.buttonText}>▶</Text>
+      </TouchableOpacity>
+    </View>
+    <View style={styles.row}>
+      <View style={styles.spacer} />
+      <TouchableOpacity style={styles.button} onPress={() => onNudge(0, 1)}>
+        <Text style={styles.buttonText}>▼</Text>
+      </TouchableOpacity>
+      <View style={styles.spacer} />
+    </View>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    right: 16,
+    bottom: 16,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    borderRadius: 10,
+    padding: 6,
+    gap: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  button: {
+    width: 44,
+    height: 44,
+    borderRadius: 6,
+    backgroundColor: '#333',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepButton: {
+    backgroundColor: '#005577',
+  },
+  closeButton: {
+    width: 44,
+    backgroundColor: 'transparent',
+  },
+  spacer: {
+    width: 44,
+    height: 44,
+  },
+  buttonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  stepText: {
+    color: 'white',
+    fontSize: 10,
+    fontWeight: '600',
+  },
+});
+
+export default NudgePad;
@@ -0,0 +1,90 @@
+import React from 'react';
+import { G, Rect, Line, Circle } from 'react-native-svg';
+import { GizmoHandle, SelectionBounds, getGizmoHandles } from '../utils/selection';
+
+type Props = {
+  bounds: SelectionBounds; // in editor pixels
+  activeHandle?: GizmoHandle | null;
+};
+
+const HANDLE_SIZE = 14;
+const GIZMO_COLOR = '#ffcc00';
+
+/**
+ * SelectionGizmo
+ *
+ * Box around a multi-point selection with handles to move (centre),
+ * scale (corner) and rotate (top) the group about its centroid.
+ * Rendered inside the editor's Svg; hit-testing lives in MeshWarpEditor.
+ */
+const SelectionGizmo: React.FC<Props> = ({ bounds, activeHandle }) => {
+  const handles = getGizmoHandles(bounds);
+  const fill = (handle: GizmoHandle) =>
+    handle === activeHandle ? GIZMO_COLOR : 'rgba(255, 204, 0, 0.6)';
+
+  return (
+    <G>
+      <Rect
+        x={bounds.minX}
+        y={bounds.minY}
+        width={bounds.maxX - bounds.minX}
+        height={bounds.maxY - bounds.minY}
+        fill="none"
+        stroke={GIZMO_COLOR}
+        strokeWidth={1}
+        strokeDasharray="6,4"
+      />
+      <Line
+        x1={handles.rotate.x}
+        y1={bounds.minY}
+        x2={handles.rotate.x}
+        y2={handles.rotate.y}
+        stroke={GIZMO_COLOR}
+        strokeWidth={1}
+      />
+      <Circle
+        cx={handles.rotate.x}
+        cy={handles.rotate.y}
+        r={HANDLE_SIZE / 2}
+        fill={fill('rotate')}
+        stroke="white"
+        strokeWidth={1}
+      />
+      <Rect
+        x={handles.scale.x - HANDLE_SIZE / 2}
+        y={handles.scale.y - HANDLE_SIZE / 2}
+        width={HANDLE_SIZE}
+        height={HANDLE_SIZE}
+        fill={fill('scale')}
+        stroke="white"
+        strokeWidth={1}
+      />
+      <Circle
+        cx={handles.move.x}
+        cy={handles.move.y}
+        r={HANDLE_SIZE / 2 + 2}
+        fill={fill('move')}
+        stroke="white"
+        strokeWidth={1}
+      />
+      <Line
+        x1={handles.move.x - HANDLE_SIZE}
+        y1={handles.move.y}
+        x2={handles.move.x + HANDLE_SIZE}
+        y2={handles.move.y}
+        stroke="white"
+        strokeWidth={1}
+      />
+      <Line
+        x1={handles.move.x}
+        y1={handles.move.y - HANDLE_SIZE}
+        x2={handles.move.x}
+        y2={handles.move.y + HANDLE_SIZE}
+        stroke="white"
+        strokeWidth={1}
+      />
+    </G>
+  );
+};
+
+export default SelectionGizmo;
@@ -0,0 +1,118 @@
+import React from 'react';
+import { View, StyleSheet, TouchableOpacity, Text } from 'react-native';
+import { MeshAxis } from '../utils/meshGrid';
+
+export type SelectionTool = 'marquee' | 'lasso';
+
+type Props = {
+  tool: SelectionTool;
+  onToolChange: (tool: SelectionTool) => void;
+  hasSelection: boolean;
+  onSelectRow: () => void;
+  onSelectColumn: () => void;
+  onSelectAll: () => void;
+  // Local density: insert next to / remove the selected point's line
+  canInsertRow: boolean;
+  canInsertColumn: boolean;
+  canRemoveRow: boolean;
+  canRemoveColumn: boolean;
+  onInsertLine: (axis: MeshAxis) => void;
+  onRemoveLine: (axis: MeshAxis) => void;
+  onRevert?: () => void; // back to the onion-skin reference, when one is shown
+  selectionLocked?: boolean;
+  onToggleLock?: () => void; // keep the selection fixed when relaxing
+};
+
+/**
+ * SelectionToolbar
+ *
+ * Picks how a drag on empty space selects points (box or freehand lasso),
+ * plus shortcuts that grow the selection to whole rows or columns, and
+ * inserts or removes a row / column at the selection, reverts it to the
+ * onion-skin reference or locks it for relaxing.
+ */
+const SelectionToolbar: React.FC<Props> = ({
+  tool,
+  onToolChange,
+  hasSelection,
+  onSelectRow,
+  onSelectColumn,
+  onSelectAll,
+  canInsertRow,
+  canInsertColumn,
+  canRemoveRow,
+  canRemoveColumn,
+  onInsertLine,
+  onRemoveLine,
+  onRevert,
+  selectionLocked = false,
+  onToggleLock,
+}) => {
+  const button = (label: string, onPress: () => void, enabled = true, active = false) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.button, active && styles.buttonActive, !enabled && styles.buttonDisabled]}
+      onPress={onPress}
+      disabled={!enabled}
+    >
+      <Text style={styles.buttonText}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        {button('▭ Box', () => onToolChange('marquee'), true, tool === 'marquee')}
+        {button('➰ Lasso', () => onToolChange('lasso'), true, tool === 'lasso')}
+        {button('⇔ Row', onSelectRow, hasSelection)}
+        {button('⇕ Col', onSelectColumn, hasSelection)}
+        {button('All', onSelectAll)}
+      </View>
+      {hasSelection && (
+        <View style={styles.row}>
+          {button('+ Row', () => onInsertLine('row'), canInsertRow)}
+          {button('− Row', () => onRemoveLine('row'), canRemoveRow)}
+          {button('+ Col', () => onInsertLine('col'), canInsertColumn)}
+          {button('− Col', () => onRemoveLine('col'), canRemoveColumn)}
+          {onRevert && button('↺ Revert', onRevert)}
+          {onToggleLock && button(selectionLocked ? '🔓 Unlock' : '🔒 Lock', onToggleLock)}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 16,
+    bottom: 16,
+    gap: 4,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    borderRadius: 10,
+    padding: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  button: {
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    borderRadius: 6,
+    backgroundColor: '#333',
+  },
+  buttonActive: {
+    backgroundColor: '#005577',
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  buttonText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
+
+export default SelectionToolbar;
@@ -0,0 +1,252 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Platform,
+  Alert,
+  LayoutChangeEvent,
+} from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
+import { Mesh, Size } from '../types';
+import {
+  CaptureImage,
+  checkStructuredLightRoundTrip,
+  decodeCaptures,
+  describePattern,
+  getPatternSequence,
+  solveMeshFromCorrespondence,
+} from '../utils/structuredLight';
+import { drawStructuredLightPattern, loadCaptureImage } from '../rendering/structuredLight';
+
+type Props = {
+  rows: number;
+  cols: number;
+  onApply: (mesh: Mesh) => void;
+  onClose: () => void;
+};
+
+/**
+ * StructuredLightCapture
+ *
+ * Auto-calibration: projects the Gray-code patterns one at a time (unwarped)
+ * while a photo of the surface is taken for each, or imports the whole set
+ * of photos at once. The captures are decoded and a mesh is solved that
+ * looks rectilinear from where the camera stood. Web only (needs canvas
+ * pixel access to decode).
+ */
+const StructuredLightCapture: React.FC<Props> = ({ rows, cols, onApply, onClose }) => {
+  const sequence = useMemo(() => getPatternSequence(), []);
+  const [step, setStep] = useState(0);
+  const [captures, setCaptures] = useState<(CaptureImage | null)[]>(() => sequence.map(() => null));
+  const [size, setSize] = useState<Size | null>(null);
+  const [busy, setBusy] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  const captured = captures.filter(Boolean).length;
+  const pattern = sequence[step];
+
+  // Dev check that decoding and solving recover a known synthetic mapping
+  useEffect(() => {
+    if (!__DEV__) return;
+    try {
+      checkStructuredLightRoundTrip();
+    } catch (error) {
+      console.warn('Structured light round trip failed:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (Platform.OS !== 'web' || !size) return;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx) drawStructuredLightPattern(ctx, pattern, size.width, size.height);
+  }, [pattern, size]);
+
+  const handleLayout = (e: LayoutChangeEvent) => {
+    const { width, height } = e.nativeEvent.layout;
+    setSize({ width, height });
+  };
+
+  const storeCaptures = async (uris: string[], startIndex: number) => {
+    setBusy(true);
+    try {
+      const images = await Promise.all(uris.map((uri) => loadCaptureImage(uri)));
+      setCaptures((prev) => {
+        const next = [...prev];
+        images.forEach((image, i) => {
+          if (startIndex + i < next.length) next[startIndex + i] = image;
+        });
+        return next;
+      });
+      setStep(Math.min(sequence.length - 1, startIndex + images.length));
+    } catch (error) {
+      console.warn('Failed to load capture:', error);
+      Alert.alert('Capture Failed', 'The photo could not be read.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const captureStep = async () => {
+    const { status } = await ImagePicker.requestCameraPermissionsAsync();
+    if (status !== 'granted') {
+      Alert.alert('Permission Required', 'Please allow camera access to capture the patterns.');
+      return;
+    }
+    const result = await ImagePicker.launchCameraAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      quality: 1,
+    });
+    if (!result.canceled && result.assets[0]) {
+      await storeCaptures([result.assets[0].uri], step);
+    }
+  };
+
+  // Photos taken elsewhere, one per pattern in sequence order
+  const importCaptures = async () => {
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      allowsMultipleSelection: true,
+      quality: 1,
+    });
+    if (result.canceled) return;
+    if (result.assets.length !== sequence.length) {
+      Alert.alert(
+        'Import Captures',
+        `Select all ${sequence.length} photos, in the order they were taken.`
+      );
+      return;
+    }
+    await storeCaptures(result.assets.map((asset) => asset.uri), 0);
+  };
+
+  const solve = () => {
+    const images = captures.filter((c): c is CaptureImage => c !== null);
+    try {
+      const result = solveMeshFromCorrespondence(decodeCaptures(images), rows, cols);
+      if (!result) {
+        Alert.alert('Auto-Calibrate', 'No projected light was found in the captures.');
+        return;
+      }
+      onApply(result.mesh);
+      if (result.missing.length > 0) {
+        Alert.alert(
+          'Auto-Calibrate',
+          `${result.missing.length} point(s) could not be decoded and were left flat.`
+        );
+      }
+    } catch (error) {
+      console.warn('Failed to decode captures:', error);
+      Alert.alert('Auto-Calibrate', error instanceof Error ? error.message : 'Decoding failed.');
+    }
+  };
+
+  if (Platform.OS !== 'web') {
+    return (
+      <View style={[StyleSheet.absoluteFill, styles.container, styles.unsupported]}>
+        <Text style={styles.label}>Auto-calibration is available on web.</Text>
+        <TouchableOpacity style={styles.button} onPress={onClose}>
+          <Text style={styles.buttonText}>✕ Close</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[StyleSheet.absoluteFill, styles.container]} onLayout={handleLayout}>
+      {size && (
+        <canvas
+          ref={canvasRef}
+          width={size.width}
+          height={size.height}
+          style={{ position: 'absolute', top: 0, left: 0 }}
+        />
+      )}
+
+      <View style={styles.controls}>
+        <TouchableOpacity
+          style={[styles.button, step === 0 && styles.buttonDisabled]}
+          onPress={() => setStep((s) => Math.max(0, s - 1))}
+          disabled={step === 0}
+        >
+          <Text style={styles.buttonText}>◀</Text>
+        </TouchableOpacity>
+        <Text style={styles.label}>
+          {step + 1}/{sequence.length} {describePattern(pattern)}
+          {captures[step] ? ' ✓' : ''}
+        </Text>
+        <TouchableOpacity
+          style={[styles.button, step === sequence.length - 1 && styles.buttonDisabled]}
+          onPress={() => setStep((s) => Math.min(sequence.length - 1, s + 1))}
+          disabled={step === sequence.length - 1}
+        >
+          <Text style={styles.buttonText}>▶</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.button} onPress={captureStep} disabled={busy}>
+          <Text style={styles.buttonText}>📷 Capture</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.button} onPress={importCaptures} disabled={busy}>
+          <Text style={styles.buttonText}>🖼 Import All</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, styles.solveButton, captured < sequence.length && styles.buttonDisabled]}
+          onPress={solve}
+          disabled={busy || captured < sequence.length}
+        >
+          <Text style={styles.buttonText}>✓ Solve ({captured}/{sequence.length})</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.button} onPress={onClose}>
+          <Text style={styles.buttonText}>✕</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'black',
+  },
+  unsupported: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+  },
+  controls: {
+    position: 'absolute',
+    left: 8,
+    bottom: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: 'rgba(40, 40, 40, 0.9)',
+    borderRadius: 8,
+    padding: 6,
+  },
+  label: {
+    color: 'white',
+    fontSize: 12,
+    minWidth: 110,
+    textAlign: 'center',
+  },
+  button: {
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    borderRadius: 6,
+    backgroundColor: '#333',
+  },
+  solveButton: {
+    backgroundColor: '#226633',
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  buttonText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
+
+export default StructuredLightCapture;
@@ -0,0 +1,98 @@
+import React, { useEffect, useRef } from 'react';
+import { View, StyleSheet, Platform } from 'react-native';
+import { drawMeshTriangles } from '../rendering/canvasMeshRenderer';
+import { createTestPatternLayer } from '../rendering/testPattern';
+import {
+  DEFAULT_SUBDIVISIONS,
+  getGridKnots,
+  getMeshGrid,
+  triangulateMesh,
+} from '../utils/meshGrid';
+import { InterpolationMode, Mesh, TestPattern } from '../types';
+
+type Props = {
+  mesh: Mesh;
+  pattern: TestPattern;
+  width: number;
+  height: number;
+  subdivisions?: number; // sub-quads per cell edge, match the playback renderer
+  interpolation?: InterpolationMode;
+  canvasRef?: React.MutableRefObject<HTMLCanvasElement | null>; // exposes the preview (loupe)
+};
+
+/**
+ * TestPatternCanvas
+ *
+ * Draws a procedural calibration pattern through the mesh warp, so what is
+ * projected shows exactly how the content will land on the surface.
+ * Web only; on iOS the editor keeps its plain background.
+ */
+const TestPatternCanvas: React.FC<Props> = ({
+  mesh,
+  pattern,
+  width,
+  height,
+  subdivisions = DEFAULT_SUBDIVISIONS,
+  interpolation = 'bilinear',
+  canvasRef: externalCanvasRef,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const layerRef = useRef<ReturnType<typeof createTestPatternLayer> | null>(null);
+
+  useEffect(() => {
+    if (Platform.OS !== 'web') return;
+
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    if (!layerRef.current) layerRef.current = createTestPatternLayer();
+    const source = layerRef.current.update(
+      pattern,
+      getGridKnots(getMeshGrid(mesh)),
+      Math.round(width),
+      Math.round(height)
+    );
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.fillStyle = 'black';
+    ctx.fillRect(0, 0, width, height);
+    drawMeshTriangles(
+      ctx,
+      source,
+      triangulateMesh(mesh, subdivisions, interpolation),
+      { x: 0, y: 0, width: source.width, height: source.height },
+      width,
+      height
+    );
+  }, [mesh, pattern, width, height, subdivisions, interpolation]);
+
+  if (Platform.OS !== 'web') {
+    return <View style={[StyleSheet.absoluteFill, styles.fallback]} />;
+  }
+
+  return (
+    <canvas
+      ref={(canvas) => {
+        canvasRef.current = canvas;
+        if (externalCanvasRef) externalCanvasRef.current = canvas;
+      }}
+      width={width}
+      height={height}
+      style={{
+        position: 'absolute',
+        top: 0,
+        left: 0,
+        width: `${width}px`,
+        height: `${height}px`,
+      }}
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  fallback: {
+    backgroundColor: '#1a1a2e',
+  },
+});
+
+export default TestPatternCanvas;
@@ -1,85 +1,215 @@
 import React, { useRef, useEffect, useState } from 'react';
 import { View, StyleSheet, Animated, Text, useWindowDimensions, Platform } from 'react-native';
 import { Video, ResizeMode, AVPlaybackStatus } from 'expo-av';
+import { createMeshRenderer, MeshRenderer } from '../rendering/meshRenderer';
+import { DEFAULT_SUBDIVISIONS } from '../utils/meshGrid';
+import { ContentRegion, EdgeBlend, InterpolationMode, Mask } from '../types';
+import { CuePlayback } from '../types/video';
+import { FULL_REGION } from '../utils/outputs';
+import { DEFAULT_CUE_PLAYBACK, getTimeToOutPoint } from '../utils/cues';
 
 type MeshPoint = { id: string; x: number; y: number };
 type Mesh = MeshPoint[];
 
 type Props = {
   mesh: Mesh;
+  interpolation?: InterpolationMode;
+  masks?: Mask[];
+  brightnessGains?: number[] | null; // output-space gain grid, see utils/brightness
+  region?: ContentRegion; // part of the source video this output shows
+  edgeBlend?: EdgeBlend | null; // overlap ramps with neighbouring outputs
   playing: boolean;
   videoSource?: any;
   onPlaybackFinished?: () => void;
-  fadeInDuration?: number;
+  playback?: CuePlayback; // trim, rate, volume and fades of the cue
+  subdivisions?: number; // sub-quads per cell edge, match the calibration preview
 };
 
+const NO_MASKS: Mask[] = [];
+
 /**
  * WarpedVideoPlayer
  * 
  * Plays video with the saved mesh warp applied.
  * 
- * 🚧 TODO: Replace this with a GLView/Skia implementation that:
- *    - Uses `mesh` as a 2D mesh warp
- *    - Applies the warp to the video texture via a shader
- * 
- * For now, this displays the video normally with fade-in effect,
- * so the rest of the app flow works end-to-end.
+ * Web: the <video> element is hidden and each frame is drawn through the
+ * mesh by a WebGL renderer (2D canvas fallback when WebGL is unavailable).
+ * Native: the video is shown unwarped until a GL path exists there.
+ *
+ * Playback starts at the cue's in-point and counts as finished at its
+ * out-point (or the end of the file), with the fade-out ending there.
  */
 const WarpedVideoPlayer: React.FC<Props> = ({
   mesh,
+  interpolation = 'bilinear',
+  masks = NO_MASKS,
+  brightnessGains = null,
+  region = FULL_REGION,
+  edgeBlend = null,
   playing,
   videoSource,
   onPlaybackFinished,
-  fadeInDuration = 500,
+  playback = DEFAULT_CUE_PLAYBACK,
+  subdivisions = DEFAULT_SUBDIVISIONS,
 }) => {
   const videoRef = useRef<Video | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const meshRef = useRef<Mesh>(mesh);
+  const layersRef = useRef({ masks, brightnessGains, region, edgeBlend });
+  const rendererRef = useRef<MeshRenderer | null>(null);
   const fadeAnim = useRef(new Animated.Value(0)).current;
+  const playbackRef = useRef(playback);
+  const onFinishedRef = useRef(onPlaybackFinished);
+  const fadingOutRef = useRef(false);
+  const finishedRef = useRef(false);
   const [isReady, setIsReady] = useState(false);
   const { width, height } = useWindowDimensions();
+  const pixelRatio = Platform.OS === 'web' ? window.devicePixelRatio || 1 : 1;
+
+  // Keep the latest mesh available to the render loop without restarting it
+  useEffect(() => {
+    meshRef.current = mesh;
+  }, [mesh]);
+
+  useEffect(() => {
+    playbackRef.current = playback;
+    onFinishedRef.current = onPlaybackFinished;
+  }, [playback, onPlaybackFinished]);
+
+  // Renderers only re-upload layers whose identity changed
+  const applyLayers = (renderer: MeshRenderer) => {
+    const layers = layersRef.current;
+    renderer.setMasks(layers.masks);
+    renderer.setBrightness(layers.brightnessGains);
+    renderer.setRegion(layers.region);
+    renderer.setEdgeBlend(layers.edgeBlend);
+  };
+
+  useEffect(() => {
+    layersRef.current = { masks, brightnessGains, region, edgeBlend };
+    if (rendererRef.current) applyLayers(rendererRef.current);
+  }, [masks, brightnessGains, region, edgeBlend]);
+
+  // Web: draw every video frame through the mesh
+  useEffect(() => {
+    if (Platform.OS !== 'web') return;
+
+    const canvas = canvasRef.current;
+    const video = videoRef.current as unknown as HTMLVideoElement | null;
+    if (!canvas || !video) return;
+
+    const renderer: MeshRenderer | null = createMeshRenderer(canvas, { subdivisions, interpolation });
+    if (!renderer) return;
+    applyLayers(renderer);
+    rendererRef.current = renderer;
+
+    let frame = 0;
+    const render = () => {
+      renderer.render(video, meshRef.current);
+      frame = requestAnimationFrame(render);
+    };
+    frame = requestAnimationFrame(render);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      renderer.dispose();
+      rendererRef.current = null;
+    };
+  }, [videoSource?.uri, subdivisions, interpolation]);
 
   // Handle play trigger
   useEffect(() => {
     if (playing && videoRef.current && isReady) {
+      const { inPoint, rate, volume, fadeIn } = playbackRef.current;
+      fadingOutRef.current = false;
+      finishedRef.current = false;
+
       if (Platform.OS === 'web') {
         // Web: Use native HTML5 video API
         const video = videoRef.current as unknown as HTMLVideoElement;
-        video.currentTime = 0;
+        video.currentTime = inPoint;
+        video.playbackRate = rate;
+        video.volume = volume;
         video.play();
       } else {
         // Native: Use expo-av API
-        videoRef.current.setPositionAsync(0);
-        videoRef.current.playAsync();
+        videoRef.current.setStatusAsync({
+          positionMillis: inPoint * 1000,
+          rate,
+          shouldCorrectPitch: true,
+          volume,
+          shouldPlay: true,
+        });
       }
       
       // Fade in
       Animated.timing(fadeAnim, {
         toValue: 1,
-        duration: fadeInDuration,
+        duration: fadeIn * 1000,
+        useNativeDriver: Platform.OS !== 'web',
+      }).start();
+    }
+  }, [playing, isReady, fadeAnim]);
+
+  // The cue is over: stop at the out-point rather than playing on
+  const finishPlayback = () => {
+    if (finishedRef.current) return;
+    finishedRef.current = true;
+
+    if (Platform.OS === 'web') {
+      (videoRef.current as unknown as HTMLVideoElement | null)?.pause();
+    } else {
+      videoRef.current?.pauseAsync();
+    }
+    fadeAnim.stopAnimation();
+    fadeAnim.setValue(0);
+    onFinishedRef.current?.();
+  };
+
+  // Position and duration in seconds; starts the fade-out so it ends at the out-point
+  const handleProgress = (position: number, duration: number) => {
+    if (finishedRef.current) return;
+    const cue = playbackRef.current;
+    const remaining = getTimeToOutPoint(cue, position, Number.isFinite(duration) ? duration : Infinity);
+
+    if (remaining <= 0) {
+      finishPlayback();
+    } else if (!fadingOutRef.current && remaining <= cue.fadeOut) {
+      fadingOutRef.current = true;
+      Animated.timing(fadeAnim, {
+        toValue: 0,
+        duration: remaining * 1000,
         useNativeDriver: Platform.OS !== 'web',
       }).start();
     }
-  }, [playing, isReady, fadeAnim, fadeInDuration]);
+  };
+
+  // Web: watch the position every frame while playing
+  useEffect(() => {
+    if (Platform.OS !== 'web' || !playing || !isReady) return;
+    const video = videoRef.current as unknown as HTMLVideoElement | null;
+    if (!video) return;
+
+    let frame = 0;
+    const tick = () => {
+      handleProgress(video.currentTime, video.duration);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, isReady]);
 
   // Handle playback status updates (native only)
   const handlePlaybackStatus = (status: AVPlaybackStatus) => {
     if (!status.isLoaded) return;
     
-    if (status.didJustFinish && onPlaybackFinished) {
-      handlePlaybackEnd();
+    if (status.didJustFinish) {
+      finishPlayback();
+    } else if (status.isPlaying && status.durationMillis !== undefined) {
+      handleProgress(status.positionMillis / 1000, status.durationMillis / 1000);
     }
   };
 
-  // Common playback end handler
-  const handlePlaybackEnd = () => {
-    Animated.timing(fadeAnim, {
-      toValue: 0,
-      duration: 300,
-      useNativeDriver: Platform.OS !== 'web',
-    }).start(() => {
-      onPlaybackFinished?.();
-    });
-  };
-
   const handleLoad = () => {
     setIsReady(true);
   };
@@ -89,47 +219,41 @@ const WarpedVideoPlayer: React.FC<Props> = ({
 
   return (
     <View style={styles.container}>
-      {/* 
-        🚧 MESH WARP TODO:
-        The `mesh` prop contains normalized vertex positions (0-1).
-        To implement actual warping:
-        
-        1. Use expo-gl / GLView to render video as a texture
-        2. Create a vertex shader that takes mesh positions as uniforms
-        3. Fragment shader samples the video texture
-        4. The mesh defines how the quad is distorted
-        
-        For concave surfaces, the mesh typically has:
-        - Edge points pulled inward
-        - Center points pushed outward
-        
-        Example shader approach:
-        - Divide video into grid cells matching mesh
-        - Each cell is a quad with 4 corner vertices from mesh
-        - Bilinear interpolate within each cell
-      */}
       
       <Animated.View style={[StyleSheet.absoluteFill, { opacity: fadeAnim, width, height }]}>
         {source ? (
           Platform.OS === 'web' ? (
-            // Web: Use native HTML5 video for better Safari/iPad support
-            <video
-              ref={videoRef as any}
-              src={source.uri}
-              style={{
-                position: 'absolute',
-                top: 0,
-                left: 0,
-                width: '100%',
-                height: '100%',
-                objectFit: 'fill',
-                minWidth: '100%',
-                minHeight: '100%',
-              }}
-              playsInline
-              onLoadedData={() => setIsReady(true)}
-              onEnded={handlePlaybackEnd}
-            />
+            // Web: hidden HTML5 video feeds the warped canvas
+            <>
+              <video
+                ref={videoRef as any}
+                src={source.uri}
+                style={{
+                  position: 'absolute',
+                  top: 0,
+                  left: 0,
+                  width: 1,
+                  height: 1,
+                  opacity: 0,
+                  pointerEvents: 'none',
+                }}
+                playsInline
+                onLoadedData={() => setIsReady(true)}
+                onEnded={finishPlayback}
+              />
+              <canvas
+                ref={canvasRef}
+                width={Math.round(width * pixelRatio)}
+                height={Math.round(height * pixelRatio)}
+                style={{
+                  position: 'absolute',
+                  top: 0,
+                  left: 0,
+                  width: '100%',
+                  height: '100%',
+                }}
+              />
+            </>
           ) : (
             <Video
               ref={videoRef}
@@ -146,6 +270,7 @@ const WarpedVideoPlayer: React.FC<Props> = ({
               shouldPlay={false}
               onLoad={handleLoad}
               onPlaybackStatusUpdate={handlePlaybackStatus}
+              progressUpdateIntervalMillis={50}
               isMuted={false}
             />
           )
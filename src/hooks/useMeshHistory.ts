@@ -1,88 +1,74 @@
 import { useState, useCallback, useRef } from 'react';
-
-type MeshPoint = { id: string; x: number; y: number };
-type Mesh = MeshPoint[];
-
-const MAX_HISTORY = 50;
+import { CornerPin, CornerPinChange, Mesh, MeshHistory } from '../types';
+import { createHistory, getCornerPinForJump, pushHistory } from '../utils/history';
 
 /**
  * useMeshHistory
  * 
- * Provides undo/redo functionality for mesh editing.
- * Stores history of mesh states and allows navigation.
+ * Mesh state with labelled undo/redo. Live gesture updates go through
+ * `preview` (no history); the gesture's end calls `commit` once with a
+ * label, so a whole drag is a single entry.
+ *
+ * Actions that also swap the corner pin record both pins on their entry;
+ * undo/redo across them hands the pin to restore to `onRestoreCornerPin`.
  */
-export function useMeshHistory(initialMesh: Mesh) {
-  const [mesh, setMeshInternal] = useState<Mesh>(initialMesh);
-  const historyRef = useRef<Mesh[]>([initialMesh]);
-  const indexRef = useRef(0);
-
-  const setMesh = useCallback((newMesh: Mesh | ((prev: Mesh) => Mesh)) => {
-    const resolvedMesh = typeof newMesh === 'function' 
-      ? newMesh(historyRef.current[indexRef.current])
-      : newMesh;
-    
-    // Don't add to history if mesh hasn't changed
-    const currentMesh = historyRef.current[indexRef.current];
-    const hasChanged = JSON.stringify(resolvedMesh) !== JSON.stringify(currentMesh);
-    if (!hasChanged) return;
-
-    // Truncate any "future" history if we're not at the end
-    historyRef.current = historyRef.current.slice(0, indexRef.current + 1);
-    
-    // Add new state
-    historyRef.current.push(resolvedMesh);
-    
-    // Limit history size
-    if (historyRef.current.length > MAX_HISTORY) {
-      historyRef.current.shift();
-    } else {
-      indexRef.current++;
-    }
-    
-    setMeshInternal(resolvedMesh);
-  }, []);
+export function useMeshHistory(
+  initialMesh: Mesh | (() => Mesh), // a function is called once, like useState's
+  onRestoreCornerPin?: (cornerPin: CornerPin) => void
+) {
+  const [mesh, setMesh] = useState<Mesh>(initialMesh);
+  // Only runs on the first render, while `mesh` is still the initial one
+  const [history, setHistoryState] = useState<MeshHistory>(() => createHistory(mesh));
+  // Latest history for callbacks fired several times before a re-render
+  const historyRef = useRef(history);
+  const restoreCornerPinRef = useRef(onRestoreCornerPin);
+  restoreCornerPinRef.current = onRestoreCornerPin;
 
-  const undo = useCallback(() => {
-    if (indexRef.current > 0) {
-      indexRef.current--;
-      setMeshInternal(historyRef.current[indexRef.current]);
-    }
+  const setHistory = useCallback((next: MeshHistory) => {
+    historyRef.current = next;
+    setHistoryState(next);
   }, []);
 
-  const redo = useCallback(() => {
-    if (indexRef.current < historyRef.current.length - 1) {
-      indexRef.current++;
-      setMeshInternal(historyRef.current[indexRef.current]);
-    }
-  }, []);
+  const commit = useCallback((
+    newMesh: Mesh,
+    label = 'Edit mesh',
+    coalesce = false,
+    cornerPin?: CornerPinChange
+  ) => {
+    setMesh(newMesh);
+    const next = pushHistory(historyRef.current, newMesh, label, coalesce, cornerPin);
+    if (next !== historyRef.current) setHistory(next);
+  }, [setHistory]);
 
-  const canUndo = indexRef.current > 0;
-  const canRedo = indexRef.current < historyRef.current.length - 1;
+  const jumpTo = useCallback((index: number) => {
+    const { entries, index: from } = historyRef.current;
+    if (index < 0 || index >= entries.length) return;
+    setHistory({ entries, index });
+    setMesh(entries[index].mesh);
+    const cornerPin = getCornerPinForJump(entries, from, index);
+    if (cornerPin) restoreCornerPinRef.current?.(cornerPin);
+  }, [setHistory]);
 
-  const resetHistory = useCallback((newMesh: Mesh) => {
-    historyRef.current = [newMesh];
-    indexRef.current = 0;
-    setMeshInternal(newMesh);
-  }, []);
+  const undo = useCallback(() => jumpTo(historyRef.current.index - 1), [jumpTo]);
+  const redo = useCallback(() => jumpTo(historyRef.current.index + 1), [jumpTo]);
 
-  // Commit current state to history (call after drag ends)
-  const commitToHistory = useCallback(() => {
-    // This is called when drag ends to ensure the final position is saved
-    // The regular setMesh already handles this, but this can be used
-    // to force a history checkpoint
-  }, []);
+  // Start over from a mesh, or from a saved history
+  const resetHistory = useCallback((newMesh: Mesh, restored?: MeshHistory | null) => {
+    setHistory(restored ?? createHistory(newMesh));
+    setMesh(newMesh);
+  }, [setHistory]);
 
   return {
     mesh,
-    setMesh,
+    preview: setMesh,
+    commit,
     undo,
     redo,
-    canUndo,
-    canRedo,
+    jumpTo,
     resetHistory,
-    commitToHistory,
-    historyLength: historyRef.current.length,
-    historyIndex: indexRef.current,
+    history,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length - 1,
   };
 }
 
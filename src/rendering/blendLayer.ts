@@ -0,0 +1,51 @@
+import { ContentRegion, EdgeBlend } from '../types';
+import { edgeBlendFactor } from '../utils/outputs';
+
+// Resolution of the blend ramp image (in mesh/local space)
+const BLEND_LAYER_SIZE = 256;
+
+// Content region in the source's own pixels
+export const regionToSourceRect = (region: ContentRegion, sourceWidth: number, sourceHeight: number) => ({
+  x: region.x * sourceWidth,
+  y: region.y * sourceHeight,
+  width: region.width * sourceWidth,
+  height: region.height * sourceHeight,
+});
+
+/**
+ * Grayscale image of the edge-blend factor over an output's local (u, v)
+ * space, for the 2D canvas path. Redrawn only when the blend changes.
+ */
+export const createBlendLayer = () => {
+  const canvas = document.createElement('canvas');
+  canvas.width = BLEND_LAYER_SIZE;
+  canvas.height = BLEND_LAYER_SIZE;
+  const ctx = canvas.getContext('2d');
+  let lastBlend: EdgeBlend | null = null;
+
+  const update = (blend: EdgeBlend): HTMLCanvasElement => {
+    if (ctx && blend !== lastBlend) {
+      lastBlend = blend;
+      const image = ctx.createImageData(BLEND_LAYER_SIZE, BLEND_LAYER_SIZE);
+      for (let y = 0; y < BLEND_LAYER_SIZE; y++) {
+        for (let x = 0; x < BLEND_LAYER_SIZE; x++) {
+          const factor = edgeBlendFactor(
+            blend,
+            (x + 0.5) / BLEND_LAYER_SIZE,
+            (y + 0.5) / BLEND_LAYER_SIZE
+          );
+          const value = Math.round(factor * 255);
+          const i = (y * BLEND_LAYER_SIZE + x) * 4;
+          image.data[i] = value;
+          image.data[i + 1] = value;
+          image.data[i + 2] = value;
+          image.data[i + 3] = 255;
+        }
+      }
+      ctx.putImageData(image, 0, 0);
+    }
+    return canvas;
+  };
+
+  return { update };
+};
@@ -0,0 +1,46 @@
+import { BRIGHTNESS_MAP_COLS, BRIGHTNESS_MAP_ROWS } from '../utils/brightness';
+
+/**
+ * Small grayscale canvas holding the output-space gain grid. Drawn scaled
+ * up with smoothing, which interpolates between gain cells.
+ */
+export const createBrightnessLayer = () => {
+  const canvas = document.createElement('canvas');
+  canvas.width = BRIGHTNESS_MAP_COLS;
+  canvas.height = BRIGHTNESS_MAP_ROWS;
+  const ctx = canvas.getContext('2d');
+  let lastGains: number[] | null = null;
+
+  const update = (gains: number[]): HTMLCanvasElement => {
+    if (ctx && gains !== lastGains) {
+      lastGains = gains;
+      const image = ctx.createImageData(BRIGHTNESS_MAP_COLS, BRIGHTNESS_MAP_ROWS);
+      gains.forEach((gain, i) => {
+        const value = Math.round(Math.max(0, Math.min(1, gain)) * 255);
+        image.data[i * 4] = value;
+        image.data[i * 4 + 1] = value;
+        image.data[i * 4 + 2] = value;
+        image.data[i * 4 + 3] = 255;
+      });
+      ctx.putImageData(image, 0, 0);
+    }
+    return canvas;
+  };
+
+  return { update };
+};
+
+// Multiply the current drawing by the gain canvas, stretched to fit
+export const applyBrightnessLayer = (
+  ctx: CanvasRenderingContext2D,
+  gainCanvas: HTMLCanvasElement,
+  width: number,
+  height: number
+) => {
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.globalCompositeOperation = 'multiply';
+  ctx.imageSmoothingEnabled = true;
+  ctx.drawImage(gainCanvas, 0, 0, width, height);
+  ctx.restore();
+};
@@ -0,0 +1,205 @@
+import { ContentRegion, EdgeBlend, Mask, Mesh } from '../types';
+import { DEFAULT_SUBDIVISIONS, MeshTriangles, triangulateMesh } from '../utils/meshGrid';
+import { applyMaskLayer, createMaskLayer } from './maskLayer';
+import { applyBrightnessLayer, createBrightnessLayer } from './brightnessLayer';
+import { createBlendLayer, regionToSourceRect } from './blendLayer';
+import { FULL_REGION } from '../utils/outputs';
+import type { MeshRenderer, MeshRendererOptions } from './meshRenderer';
+
+// Grow each clip triangle slightly so neighbouring triangles overlap (hides seams)
+const SEAM_OVERLAP_PX = 0.5;
+
+/**
+ * Draw one textured triangle: clip to the destination triangle, then map the
+ * source triangle onto it with an affine transform.
+ */
+const drawTexturedTriangle = (
+  ctx: CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  s0: number, t0: number, s1: number, t1: number, s2: number, t2: number,
+  x0: number, y0: number, x1: number, y1: number, x2: number, y2: number
+) => {
+  const du1 = s1 - s0;
+  const dv1 = t1 - t0;
+  const du2 = s2 - s0;
+  const dv2 = t2 - t0;
+  const det = du1 * dv2 - du2 * dv1;
+  if (Math.abs(det) < 1e-9) return;
+
+  // Solve x = a*s + c*t + e, y = b*s + d*t + f for the three vertex pairs
+  const dx1 = x1 - x0;
+  const dx2 = x2 - x0;
+  const dy1 = y1 - y0;
+  const dy2 = y2 - y0;
+  const a = (dx1 * dv2 - dx2 * dv1) / det;
+  const c = (dx2 * du1 - dx1 * du2) / det;
+  const b = (dy1 * dv2 - dy2 * dv1) / det;
+  const d = (dy2 * du1 - dy1 * du2) / det;
+  const e = x0 - a * s0 - c * t0;
+  const f = y0 - b * s0 - d * t0;
+
+  // Expand the clip path away from the centroid
+  const cx = (x0 + x1 + x2) / 3;
+  const cy = (y0 + y1 + y2) / 3;
+  const grow = (x: number, y: number): [number, number] => {
+    const len = Math.hypot(x - cx, y - cy) || 1;
+    return [x + ((x - cx) / len) * SEAM_OVERLAP_PX, y + ((y - cy) / len) * SEAM_OVERLAP_PX];
+  };
+  const [gx0, gy0] = grow(x0, y0);
+  const [gx1, gy1] = grow(x1, y1);
+  const [gx2, gy2] = grow(x2, y2);
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.moveTo(gx0, gy0);
+  ctx.lineTo(gx1, gy1);
+  ctx.lineTo(gx2, gy2);
+  ctx.closePath();
+  ctx.clip();
+  ctx.setTransform(a, b, c, d, e, f);
+  ctx.drawImage(source, 0, 0);
+  ctx.restore();
+};
+
+/**
+ * Draw a triangulated mesh into a 2D context.
+ * `sourceRect` is the part of the source image (in its pixels) that the
+ * mesh texture coordinates span.
+ */
+export const drawMeshTriangles = (
+  ctx: CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  triangles: MeshTriangles,
+  sourceRect: { x: number; y: number; width: number; height: number },
+  width: number,
+  height: number
+) => {
+  const { positions: p, texCoords: t, vertexCount } = triangles;
+  const sx = (s: number) => sourceRect.x + s * sourceRect.width;
+  const sy = (s: number) => sourceRect.y + s * sourceRect.height;
+
+  for (let i = 0; i < vertexCount * 2; i += 6) {
+    drawTexturedTriangle(
+      ctx,
+      source,
+      sx(t[i]), sy(t[i + 1]),
+      sx(t[i + 2]), sy(t[i + 3]),
+      sx(t[i + 4]), sy(t[i + 5]),
+      p[i] * width, p[i + 1] * height,
+      p[i + 2] * width, p[i + 3] * height,
+      p[i + 4] * width, p[i + 5] * height
+    );
+  }
+};
+
+/**
+ * Multiply the drawing by an edge-blend image warped through the same
+ * triangles, so the ramps follow the mesh like the content does.
+ */
+export const applyBlendLayer = (
+  ctx: CanvasRenderingContext2D,
+  blendCanvas: HTMLCanvasElement,
+  triangles: MeshTriangles,
+  width: number,
+  height: number
+) => {
+  ctx.save();
+  ctx.globalCompositeOperation = 'multiply';
+  drawMeshTriangles(
+    ctx,
+    blendCanvas,
+    triangles,
+    { x: 0, y: 0, width: blendCanvas.width, height: blendCanvas.height },
+    width,
+    height
+  );
+  ctx.restore();
+};
+
+/**
+ * createCanvasMeshRenderer
+ *
+ * 2D canvas fallback for when WebGL is unavailable. Each triangle of the
+ * mesh is drawn with its own affine transform, so it is slower than the
+ * WebGL path but produces the same warp.
+ */
+export const createCanvasMeshRenderer = (
+  canvas: HTMLCanvasElement,
+  options: MeshRendererOptions = {}
+): MeshRenderer | null => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const subdivisions = options.subdivisions ?? DEFAULT_SUBDIVISIONS;
+  const interpolation = options.interpolation ?? 'bilinear';
+  let lastMesh: Mesh | null = null;
+  let triangles: MeshTriangles | null = null;
+  let masks: Mask[] = [];
+  const maskLayer = createMaskLayer();
+  let gains: number[] | null = null;
+  const brightnessLayer = createBrightnessLayer();
+
+  const setMasks = (newMasks: Mask[]) => {
+    masks = newMasks;
+  };
+
+  const setBrightness = (newGains: number[] | null) => {
+    gains = newGains;
+  };
+
+  let region: ContentRegion = FULL_REGION;
+  let blend: EdgeBlend | null = null;
+  const blendLayer = createBlendLayer();
+
+  const setRegion = (newRegion: ContentRegion) => {
+    region = newRegion;
+  };
+
+  const setEdgeBlend = (newBlend: EdgeBlend | null) => {
+    blend = newBlend;
+  };
+
+  const render = (source: HTMLVideoElement, mesh: Mesh) => {
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.fillStyle = 'black';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    if (source.readyState < 2) return;
+
+    if (mesh !== lastMesh || !triangles) {
+      lastMesh = mesh;
+      triangles = triangulateMesh(mesh, subdivisions, interpolation);
+    }
+
+    try {
+      drawMeshTriangles(
+        ctx,
+        source,
+        triangles,
+        regionToSourceRect(region, source.videoWidth || canvas.width, source.videoHeight || canvas.height),
+        canvas.width,
+        canvas.height
+      );
+    } catch (e) {
+      // Video not ready
+    }
+
+    if (blend) {
+      applyBlendLayer(ctx, blendLayer.update(blend), triangles, canvas.width, canvas.height);
+    }
+
+    if (gains) {
+      applyBrightnessLayer(ctx, brightnessLayer.update(gains), canvas.width, canvas.height);
+    }
+    if (masks.length > 0) {
+      applyMaskLayer(ctx, maskLayer.update(masks, canvas.width, canvas.height));
+    }
+  };
+
+  const dispose = () => {
+    lastMesh = null;
+    triangles = null;
+  };
+
+  return { render, setMasks, setBrightness, setRegion, setEdgeBlend, dispose };
+};
@@ -0,0 +1,103 @@
+import { Mask } from '../types';
+import { getMaskPathCommands } from '../utils/masks';
+
+const traceMask = (
+  ctx: CanvasRenderingContext2D,
+  mask: Mask,
+  width: number,
+  height: number,
+  offsetX: number
+) => {
+  const px = (p: { x: number; y: number }): [number, number] => [p.x * width + offsetX, p.y * height];
+
+  ctx.beginPath();
+  for (const cmd of getMaskPathCommands(mask)) {
+    if (cmd.type === 'M') ctx.moveTo(...px(cmd.to));
+    else if (cmd.type === 'L') ctx.lineTo(...px(cmd.to));
+    else ctx.bezierCurveTo(...px(cmd.cp1), ...px(cmd.cp2), ...px(cmd.to));
+  }
+  ctx.closePath();
+};
+
+/**
+ * Fill a mask shape, softening its edge by `feather` pixels.
+ * The shape itself is drawn off-canvas and only its blurred shadow lands
+ * in view; unlike ctx.filter this works in Safari.
+ */
+const fillMask = (ctx: CanvasRenderingContext2D, mask: Mask, width: number, height: number) => {
+  if (mask.feather <= 0) {
+    traceMask(ctx, mask, width, height, 0);
+    ctx.fill();
+    return;
+  }
+
+  const offscreen = width + mask.feather * 4;
+  ctx.save();
+  ctx.shadowColor = 'white';
+  ctx.shadowBlur = mask.feather;
+  ctx.shadowOffsetX = offscreen;
+  traceMask(ctx, mask, width, height, -offscreen);
+  ctx.fill();
+  ctx.restore();
+};
+
+/**
+ * Draw the combined visibility of all masks into a canvas, as alpha:
+ * opaque where content shows, transparent where it is blacked out.
+ *
+ * Regular masks are unioned to form the visible area (everything is
+ * visible when there are none); inverted masks are then cut out of it.
+ */
+export const drawMaskLayer = (canvas: HTMLCanvasElement, masks: Mask[]) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  const { width, height } = canvas;
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.clearRect(0, 0, width, height);
+  ctx.fillStyle = 'white';
+
+  const included = masks.filter((m) => !m.inverted);
+  const excluded = masks.filter((m) => m.inverted);
+
+  if (included.length === 0) {
+    ctx.fillRect(0, 0, width, height);
+  } else {
+    included.forEach((mask) => fillMask(ctx, mask, width, height));
+  }
+
+  ctx.globalCompositeOperation = 'destination-out';
+  excluded.forEach((mask) => fillMask(ctx, mask, width, height));
+  ctx.globalCompositeOperation = 'source-over';
+};
+
+/**
+ * Offscreen mask canvas that is only redrawn when the masks or the
+ * output size change.
+ */
+export const createMaskLayer = () => {
+  const canvas = document.createElement('canvas');
+  let lastMasks: Mask[] | null = null;
+
+  const update = (masks: Mask[], width: number, height: number): HTMLCanvasElement => {
+    if (masks !== lastMasks || canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+      lastMasks = masks;
+      drawMaskLayer(canvas, masks);
+    }
+    return canvas;
+  };
+
+  return { update };
+};
+
+// Keep only the parts of the current drawing that the mask layer shows
+export const applyMaskLayer = (ctx: CanvasRenderingContext2D, maskCanvas: HTMLCanvasElement) => {
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.globalCompositeOperation = 'destination-in';
+  ctx.drawImage(maskCanvas, 0, 0);
+  ctx.restore();
+};
@@ -0,0 +1,27 @@
+import { ContentRegion, EdgeBlend, InterpolationMode, Mask, Mesh } from '../types';
+import { createWebGLMeshRenderer } from './webglMeshRenderer';
+import { createCanvasMeshRenderer } from './canvasMeshRenderer';
+
+export type MeshRendererOptions = {
+  subdivisions?: number; // sub-quads per mesh cell edge
+  interpolation?: InterpolationMode;
+};
+
+export type MeshRenderer = {
+  render: (source: HTMLVideoElement, mesh: Mesh) => void;
+  setMasks: (masks: Mask[]) => void; // output-space masks applied after the warp
+  setBrightness: (gains: number[] | null) => void; // output-space gain grid, null = off
+  setRegion: (region: ContentRegion) => void; // part of the source this output shows
+  setEdgeBlend: (blend: EdgeBlend | null) => void; // overlap ramps, in mesh space
+  dispose: () => void;
+};
+
+/**
+ * Create the best available mesh renderer for a canvas (web only).
+ * Prefers WebGL and falls back to the 2D canvas renderer.
+ */
+export const createMeshRenderer = (
+  canvas: HTMLCanvasElement,
+  options: MeshRendererOptions = {}
+): MeshRenderer | null =>
+  createWebGLMeshRenderer(canvas, options) ?? createCanvasMeshRenderer(canvas, options);
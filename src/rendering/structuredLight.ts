@@ -0,0 +1,61 @@
+import {
+  CaptureImage,
+  DEFAULT_STRUCTURED_LIGHT_OPTIONS,
+  StructuredLightOptions,
+  StructuredLightPattern,
+  isPatternLit,
+} from '../utils/structuredLight';
+
+// Captures are scaled down to this width before decoding
+export const MAX_CAPTURE_WIDTH = 640;
+
+// Draw a pattern unwarped, filling the projector output
+export const drawStructuredLightPattern = (
+  ctx: CanvasRenderingContext2D,
+  pattern: StructuredLightPattern,
+  width: number,
+  height: number,
+  options: StructuredLightOptions = DEFAULT_STRUCTURED_LIGHT_OPTIONS
+) => {
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.fillStyle = 'black';
+  ctx.fillRect(0, 0, width, height);
+  ctx.fillStyle = 'white';
+
+  if (pattern.kind !== 'stripes') {
+    if (pattern.kind === 'white') ctx.fillRect(0, 0, width, height);
+    return;
+  }
+
+  // One rect per pixel column (or row); stripes are constant along the other axis
+  const length = pattern.axis === 'x' ? width : height;
+  for (let i = 0; i < length; i++) {
+    const t = (i + 0.5) / length;
+    if (!isPatternLit(pattern, t, t, options)) continue;
+    if (pattern.axis === 'x') ctx.fillRect(i, 0, 1, height);
+    else ctx.fillRect(0, i, width, 1);
+  }
+};
+
+// Load a photo (web) as RGBA pixels, scaled down for decoding
+export const loadCaptureImage = (uri: string, maxWidth = MAX_CAPTURE_WIDTH): Promise<CaptureImage> =>
+  new Promise((resolve, reject) => {
+    const image = new window.Image();
+    image.onload = () => {
+      const scale = Math.min(1, maxWidth / image.naturalWidth);
+      const width = Math.max(1, Math.round(image.naturalWidth * scale));
+      const height = Math.max(1, Math.round(image.naturalHeight * scale));
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Canvas unavailable'));
+        return;
+      }
+      ctx.drawImage(image, 0, 0, width, height);
+      resolve({ width, height, data: ctx.getImageData(0, 0, width, height).data });
+    };
+    image.onerror = () => reject(new Error(`Could not load ${uri}`));
+    image.src = uri;
+  });
@@ -0,0 +1,131 @@
+import { TestPattern } from '../types';
+import { GridKnots, subdivideKnots } from '../utils/meshGrid';
+import { COLOR_BARS } from '../utils/testPatterns';
+
+const CROSSHAIR_SIZE = 0.4; // fraction of the smallest cell
+const RAMP_STEPS_MIN = 8;
+
+/**
+ * Draw a flat (unwarped) test pattern. Cell edges follow the mesh's source
+ * knots, so after warping they land on the mesh lines even when rows and
+ * columns are unevenly spaced.
+ */
+export const drawTestPattern = (
+  ctx: CanvasRenderingContext2D,
+  pattern: TestPattern,
+  knots: GridKnots,
+  width: number,
+  height: number
+) => {
+  const xs = subdivideKnots(knots.us, pattern.cellsPerMeshCell).map((u) => u * width);
+  const ys = subdivideKnots(knots.vs, pattern.cellsPerMeshCell).map((v) => v * height);
+
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.fillStyle = pattern.background;
+  ctx.fillRect(0, 0, width, height);
+  ctx.fillStyle = pattern.foreground;
+  ctx.strokeStyle = pattern.foreground;
+
+  switch (pattern.type) {
+    case 'checkerboard':
+      for (let r = 0; r < ys.length - 1; r++) {
+        for (let c = 0; c < xs.length - 1; c++) {
+          if ((r + c) % 2 === 0) ctx.fillRect(xs[c], ys[r], xs[c + 1] - xs[c], ys[r + 1] - ys[r]);
+        }
+      }
+      break;
+
+    case 'grid':
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      for (const x of xs) {
+        const px = Math.min(width - 0.5, Math.round(x) + 0.5);
+        ctx.moveTo(px, 0);
+        ctx.lineTo(px, height);
+      }
+      for (const y of ys) {
+        const py = Math.min(height - 0.5, Math.round(y) + 0.5);
+        ctx.moveTo(0, py);
+        ctx.lineTo(width, py);
+      }
+      ctx.stroke();
+      break;
+
+    case 'crosshairs': {
+      // A circle and crosshair on every control point
+      const cell = Math.min(
+        ...knots.us.slice(1).map((u, i) => (u - knots.us[i]) * width),
+        ...knots.vs.slice(1).map((v, i) => (v - knots.vs[i]) * height)
+      );
+      const radius = (cell * CROSSHAIR_SIZE) / 2;
+      ctx.lineWidth = 2;
+      for (const v of knots.vs) {
+        for (const u of knots.us) {
+          const x = u * width;
+          const y = v * height;
+          ctx.beginPath();
+          ctx.arc(x, y, radius, 0, Math.PI * 2);
+          ctx.moveTo(x - radius * 1.5, y);
+          ctx.lineTo(x + radius * 1.5, y);
+          ctx.moveTo(x, y - radius * 1.5);
+          ctx.lineTo(x, y + radius * 1.5);
+          ctx.stroke();
+        }
+      }
+      break;
+    }
+
+    case 'colorBars': {
+      const barWidth = width / COLOR_BARS.length;
+      COLOR_BARS.forEach((color, i) => {
+        ctx.fillStyle = color;
+        ctx.fillRect(Math.floor(i * barWidth), 0, Math.ceil(barWidth), height);
+      });
+      break;
+    }
+
+    case 'grayRamp': {
+      // Stepped black-to-white ramp, one step per pattern column
+      const steps = Math.max(RAMP_STEPS_MIN, xs.length - 1);
+      const stepWidth = width / steps;
+      for (let i = 0; i < steps; i++) {
+        const value = Math.round((i / (steps - 1)) * 255);
+        ctx.fillStyle = `rgb(${value}, ${value}, ${value})`;
+        ctx.fillRect(Math.floor(i * stepWidth), 0, Math.ceil(stepWidth), height);
+      }
+      break;
+    }
+
+    case 'white':
+    default:
+      ctx.fillStyle = 'white';
+      ctx.fillRect(0, 0, width, height);
+      break;
+  }
+
+  ctx.restore();
+};
+
+/**
+ * Offscreen canvas holding the flat pattern. Only redrawn when the
+ * pattern, knots or size change, so mesh drags just re-warp it.
+ */
+export const createTestPatternLayer = () => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  let lastKey = '';
+
+  const update = (pattern: TestPattern, knots: GridKnots, width: number, height: number) => {
+    const key = JSON.stringify([pattern, knots, width, height]);
+    if (ctx && key !== lastKey) {
+      lastKey = key;
+      canvas.width = width;
+      canvas.height = height;
+      drawTestPattern(ctx, pattern, knots, width, height);
+    }
+    return canvas;
+  };
+
+  return { update };
+};
@@ -0,0 +1,287 @@
+import { ContentRegion, EdgeBlend, Mask, Mesh } from '../types';
+import { DEFAULT_SUBDIVISIONS, triangulateMesh } from '../utils/meshGrid';
+import { createMaskLayer } from './maskLayer';
+import { createBrightnessLayer } from './brightnessLayer';
+import { FULL_REGION } from '../utils/outputs';
+import type { MeshRenderer, MeshRendererOptions } from './meshRenderer';
+
+const VERTEX_SHADER = `
+attribute vec2 a_position;
+attribute vec2 a_texCoord;
+uniform vec4 u_region; // content region: x, y, width, height
+varying vec2 v_texCoord;
+varying vec2 v_localCoord;
+
+void main() {
+  // Mesh positions are normalized 0-1 with y pointing down
+  vec2 clip = vec2(a_position.x * 2.0 - 1.0, 1.0 - a_position.y * 2.0);
+  gl_Position = vec4(clip, 0.0, 1.0);
+  v_localCoord = a_texCoord;
+  v_texCoord = u_region.xy + a_texCoord * u_region.zw;
+}
+`;
+
+const FRAGMENT_SHADER = `
+precision mediump float;
+uniform sampler2D u_texture;
+uniform sampler2D u_mask;
+uniform sampler2D u_gain;
+uniform vec2 u_resolution;
+uniform vec4 u_blend; // edge-blend widths: left, top, right, bottom
+uniform float u_blendGamma;
+varying vec2 v_texCoord;
+varying vec2 v_localCoord;
+
+float ramp(float distance, float width) {
+  if (width <= 0.0) return 1.0;
+  return smoothstep(0.0, 1.0, clamp(distance / width, 0.0, 1.0));
+}
+
+void main() {
+  // Cross-fade in linear light, then gamma-encode to match the pixels
+  float blend = ramp(v_localCoord.x, u_blend.x) * ramp(v_localCoord.y, u_blend.y)
+    * ramp(1.0 - v_localCoord.x, u_blend.z) * ramp(1.0 - v_localCoord.y, u_blend.w);
+  blend = pow(blend, 1.0 / u_blendGamma);
+
+  // Masks and gains are drawn in output space, top row first
+  vec2 outputCoord = vec2(gl_FragCoord.x / u_resolution.x, 1.0 - gl_FragCoord.y / u_resolution.y);
+  float visibility = texture2D(u_mask, outputCoord).a;
+  float gain = texture2D(u_gain, outputCoord).r;
+  vec4 color = texture2D(u_texture, v_texCoord);
+  gl_FragColor = vec4(color.rgb * blend * gain * visibility, 1.0);
+}
+`;
+
+const compileShader = (gl: WebGLRenderingContext, type: number, source: string) => {
+  const shader = gl.createShader(type);
+  if (!shader) return null;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    console.warn('Mesh shader failed to compile', gl.getShaderInfoLog(shader));
+    gl.deleteShader(shader);
+    return null;
+  }
+  return shader;
+};
+
+const createProgram = (gl: WebGLRenderingContext) => {
+  const vertexShader = compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER);
+  const fragmentShader = compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER);
+  if (!vertexShader || !fragmentShader) return null;
+
+  const program = gl.createProgram();
+  if (!program) return null;
+  gl.attachShader(program, vertexShader);
+  gl.attachShader(program, fragmentShader);
+  gl.linkProgram(program);
+  gl.deleteShader(vertexShader);
+  gl.deleteShader(fragmentShader);
+
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    console.warn('Mesh shader failed to link', gl.getProgramInfoLog(program));
+    gl.deleteProgram(program);
+    return null;
+  }
+  return program;
+};
+
+/**
+ * createWebGLMeshRenderer
+ *
+ * Uploads each video frame as a texture and draws the mesh as a
+ * triangulated grid: vertices at the warped mesh positions, texture
+ * coordinates at the original grid positions.
+ *
+ * Returns null when WebGL is unavailable so callers can fall back to 2D.
+ */
+export const createWebGLMeshRenderer = (
+  canvas: HTMLCanvasElement,
+  options: MeshRendererOptions = {}
+): MeshRenderer | null => {
+  const gl = canvas.getContext('webgl', { premultipliedAlpha: false, antialias: true });
+  if (!gl) return null;
+
+  const program = createProgram(gl);
+  if (!program) return null;
+
+  const positionLocation = gl.getAttribLocation(program, 'a_position');
+  const texCoordLocation = gl.getAttribLocation(program, 'a_texCoord');
+  const positionBuffer = gl.createBuffer();
+  const texCoordBuffer = gl.createBuffer();
+  const textureLocation = gl.getUniformLocation(program, 'u_texture');
+  const maskLocation = gl.getUniformLocation(program, 'u_mask');
+  const gainLocation = gl.getUniformLocation(program, 'u_gain');
+  const resolutionLocation = gl.getUniformLocation(program, 'u_resolution');
+  const regionLocation = gl.getUniformLocation(program, 'u_region');
+  const blendLocation = gl.getUniformLocation(program, 'u_blend');
+  const blendGammaLocation = gl.getUniformLocation(program, 'u_blendGamma');
+
+  // Video frames are rarely power-of-two sized, so no mipmaps or repeat
+  const createTexture = () => {
+    const tex = gl.createTexture();
+    gl.bindTexture(gl.TEXTURE_2D, tex);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    return tex;
+  };
+  const texture = createTexture();
+  const maskTexture = createTexture();
+  const gainTexture = createTexture();
+
+  // A single opaque white pixel: fully visible, unit gain
+  const uploadWhitePixel = (target: WebGLTexture | null) => {
+    gl.bindTexture(gl.TEXTURE_2D, target);
+    gl.texImage2D(
+      gl.TEXTURE_2D, 0, gl.RGBA, 1, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE,
+      new Uint8Array([255, 255, 255, 255])
+    );
+  };
+  const uploadOpaqueMask = () => uploadWhitePixel(maskTexture);
+  uploadOpaqueMask();
+  uploadWhitePixel(gainTexture);
+
+  const brightnessLayer = createBrightnessLayer();
+  let gains: number[] | null = null;
+  let gainsDirty = false;
+
+  const setBrightness = (newGains: number[] | null) => {
+    if (newGains === gains) return;
+    gains = newGains;
+    gainsDirty = true;
+  };
+
+  const uploadGains = () => {
+    if (!gainsDirty) return;
+    gainsDirty = false;
+
+    if (!gains) {
+      uploadWhitePixel(gainTexture);
+      return;
+    }
+    gl.bindTexture(gl.TEXTURE_2D, gainTexture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, brightnessLayer.update(gains));
+  };
+
+  let region: ContentRegion = FULL_REGION;
+  let blend: EdgeBlend | null = null;
+
+  const setRegion = (newRegion: ContentRegion) => {
+    region = newRegion;
+  };
+
+  const setEdgeBlend = (newBlend: EdgeBlend | null) => {
+    blend = newBlend;
+  };
+
+  const maskLayer = createMaskLayer();
+  let masks: Mask[] = [];
+  let masksDirty = false;
+  let maskSize = { width: 0, height: 0 };
+
+  const setMasks = (newMasks: Mask[]) => {
+    if (newMasks === masks) return;
+    masks = newMasks;
+    masksDirty = true;
+  };
+
+  // Redraw the mask texture when the masks or the output size change
+  const uploadMasks = () => {
+    const sizeChanged = maskSize.width !== canvas.width || maskSize.height !== canvas.height;
+    if (!masksDirty && !(sizeChanged && masks.length > 0)) return;
+    masksDirty = false;
+    maskSize = { width: canvas.width, height: canvas.height };
+
+    if (masks.length === 0) {
+      uploadOpaqueMask();
+      return;
+    }
+    const maskCanvas = maskLayer.update(masks, canvas.width, canvas.height);
+    gl.bindTexture(gl.TEXTURE_2D, maskTexture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, maskCanvas);
+  };
+
+  const subdivisions = options.subdivisions ?? DEFAULT_SUBDIVISIONS;
+  const interpolation = options.interpolation ?? 'bilinear';
+  let lastMesh: Mesh | null = null;
+  let vertexCount = 0;
+
+  // Only re-triangulate when the mesh object changes
+  const uploadMesh = (mesh: Mesh) => {
+    if (mesh === lastMesh) return;
+    lastMesh = mesh;
+
+    const triangles = triangulateMesh(mesh, subdivisions, interpolation);
+    vertexCount = triangles.vertexCount;
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, triangles.positions, gl.DYNAMIC_DRAW);
+    gl.bindBuffer(gl.ARRAY_BUFFER, texCoordBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, triangles.texCoords, gl.DYNAMIC_DRAW);
+  };
+
+  const render = (source: HTMLVideoElement, mesh: Mesh) => {
+    gl.viewport(0, 0, canvas.width, canvas.height);
+    gl.clearColor(0, 0, 0, 1);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+
+    // Nothing to upload until the first frame has decoded
+    if (source.readyState < 2) return;
+
+    uploadMesh(mesh);
+    if (vertexCount === 0) return;
+
+    gl.useProgram(program);
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+
+    gl.activeTexture(gl.TEXTURE1);
+    uploadMasks();
+    gl.bindTexture(gl.TEXTURE_2D, maskTexture);
+    gl.uniform1i(maskLocation, 1);
+
+    gl.activeTexture(gl.TEXTURE2);
+    uploadGains();
+    gl.bindTexture(gl.TEXTURE_2D, gainTexture);
+    gl.uniform1i(gainLocation, 2);
+    gl.uniform2f(resolutionLocation, canvas.width, canvas.height);
+    gl.uniform4f(regionLocation, region.x, region.y, region.width, region.height);
+    gl.uniform4f(
+      blendLocation,
+      blend?.left ?? 0, blend?.top ?? 0, blend?.right ?? 0, blend?.bottom ?? 0
+    );
+    gl.uniform1f(blendGammaLocation, blend?.gamma ?? 1);
+
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.uniform1i(textureLocation, 0);
+    try {
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+    } catch (e) {
+      // Frame not available (e.g. cross-origin or mid-seek)
+      return;
+    }
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer);
+    gl.enableVertexAttribArray(positionLocation);
+    gl.vertexAttribPointer(positionLocation, 2, gl.FLOAT, false, 0, 0);
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, texCoordBuffer);
+    gl.enableVertexAttribArray(texCoordLocation);
+    gl.vertexAttribPointer(texCoordLocation, 2, gl.FLOAT, false, 0, 0);
+
+    gl.drawArrays(gl.TRIANGLES, 0, vertexCount);
+  };
+
+  const dispose = () => {
+    gl.deleteBuffer(positionBuffer);
+    gl.deleteBuffer(texCoordBuffer);
+    gl.deleteTexture(texture);
+    gl.deleteTexture(maskTexture);
+    gl.deleteTexture(gainTexture);
+    gl.deleteProgram(program);
+  };
+
+  return { render, setMasks, setBrightness, setRegion, setEdgeBlend, dispose };
+};
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import {
   View,
   StyleSheet,
@@ -7,20 +7,148 @@ import {
   Alert,
   SafeAreaView,
   ScrollView,
+  Platform,
+  TextInput,
+  LayoutChangeEvent,
+  useWindowDimensions,
 } from 'react-native';
 import * as ImagePicker from 'expo-image-picker';
 import MeshWarpEditor from '../components/MeshWarpEditor';
 import ResizableVideoContainer from '../components/ResizableVideoContainer';
-import { VideoCue } from '../types/video';
+import StructuredLightCapture from '../components/StructuredLightCapture';
+import MeshThumbnail from '../components/MeshThumbnail';
+import CueListEditor from '../components/CueListEditor';
+import { CueChanges, VideoCue } from '../types/video';
+import {
+  BrightnessMode,
+  BrightnessSettings,
+  CalibrationSettings,
+  ContentRegion,
+  CornerPin,
+  CornerPinChange,
+  EdgeBlend,
+  EditorMode,
+  Mask,
+  ProjectorOutput,
+  SnapSettings,
+  SoftSelection,
+  SurfacePreset,
+  TestPattern,
+  CalibrationProfile,
+  MeshHistory,
+  GhostSource,
+  RelaxSettings,
+  Size,
+} from '../types';
+import { MAX_MASK_FEATHER, createMask, removeMaskPoint } from '../utils/masks';
+import { createBrightnessMap, getBrightnessGains } from '../utils/brightness';
+import { MAX_OUTPUTS } from '../utils/outputs';
+import { IDENTITY_CORNER_PIN, applyCornerPin, isIdentityCornerPin } from '../utils/homography';
+import { SYMMETRY_LABELS, nextSymmetryMode } from '../utils/symmetry';
+import { DEFAULT_SOFT_SELECTION, FALLOFF_CURVES, clampSoftRadius } from '../utils/softSelection';
+import { ShowImportMode, ShowImportReport } from '../utils/showFile';
+import { formatProfileDate, nextProfileName } from '../utils/profiles';
+import { formatHistoryTime } from '../utils/history';
+import { formatCueNumber, getCueNumber } from '../utils/cues';
+import { countMovedPoints, resolveGhost, revertPoints } from '../utils/onionSkin';
+import { describeProblems, validateMesh } from '../utils/meshValidity';
+import { confirmAction } from '../utils/confirm';
+import {
+  DEFAULT_RELAX_SETTINGS,
+  MAX_RELAX_ITERATIONS,
+  MIN_RELAX_ITERATIONS,
+  RELAX_METHODS,
+  clampRelaxIterations,
+  clampRelaxStrength,
+  relaxMesh,
+} from '../utils/relax';
+import {
+  DEFAULT_SURFACE_PRESET,
+  SURFACE_TYPES,
+  buildSurfaceMesh,
+  countOutOfFrame,
+} from '../utils/surfacePresets';
+import {
+  DEFAULT_TEST_PATTERN,
+  MAX_PATTERN_CELLS,
+  MIN_PATTERN_CELLS,
+  TEST_PATTERNS,
+  clampPatternCells,
+  nextPatternColor,
+} from '../utils/testPatterns';
+import {
+  DEFAULT_SNAP_SETTINGS,
+  MAX_PIXEL_GRID,
+  MIN_PIXEL_GRID,
+  isSnapping,
+} from '../utils/snapping';
+import {
+  MAX_MESH_SIZE,
+  MAX_SUBDIVISIONS,
+  MIN_MESH_SIZE,
+  MIN_SUBDIVISIONS,
+  getMeshDimensions,
+  resampleMesh,
+} from '../utils/meshGrid';
+
+const BRIGHTNESS_MODES: { mode: BrightnessMode; label: string }[] = [
+  { mode: 'off', label: 'Off' },
+  { mode: 'geometry', label: 'From Mesh' },
+  { mode: 'painted', label: 'Painted' },
+];
+const BRUSH_STEP = 0.05; // gain change per brush dab
+const REGION_STEP = 0.05; // content region nudge, fraction of the source
+const MIN_REGION_SIZE = 0.1;
+const REGION_FIELDS: { key: keyof ContentRegion; label: string }[] = [
+  { key: 'x', label: 'X' },
+  { key: 'y', label: 'Y' },
+  { key: 'width', label: 'W' },
+  { key: 'height', label: 'H' },
+];
+type SurfaceField = Exclude<keyof SurfacePreset, 'type'>;
+const SURFACE_FIELDS: { key: SurfaceField; label: string; step: number; min: number }[] = [
+  { key: 'width', label: 'W', step: 0.1, min: 0.1 },
+  { key: 'height', label: 'H', step: 0.1, min: 0.1 },
+  { key: 'depth', label: 'Depth', step: 0.05, min: 0 },
+  { key: 'distance', label: 'Dist', step: 0.1, min: 0.1 },
+  { key: 'offsetX', label: 'Off X', step: 0.05, min: -Infinity },
+  { key: 'offsetY', label: 'Off Y', step: 0.05, min: -Infinity },
+  { key: 'throwRatio', label: 'Throw', step: 0.05, min: 0.1 },
+];
 
 type MeshPoint = { id: string; x: number; y: number };
 type Mesh = MeshPoint[];
 
 type Props = {
   mesh: Mesh;
-  onMeshChange: (mesh: Mesh) => void;
+  onMeshChange: (mesh: Mesh, label?: string, coalesce?: boolean, cornerPin?: CornerPinChange) => void;
+  onMeshPreview: (mesh: Mesh) => void; // live gesture updates, kept out of undo history
   onSaveMesh: (mesh: Mesh) => void;
+  savedMesh: Mesh; // active output as last saved, for the onion skin
   onResetMesh: () => void;
+  calibrationSettings: CalibrationSettings;
+  onCalibrationSettingsChange: (settings: CalibrationSettings) => void;
+  // Projector outputs
+  outputs: ProjectorOutput[];
+  activeOutputId: string;
+  edgeBlend: EdgeBlend | null;
+  onSelectOutput: (id: string) => void;
+  onAddOutput: () => void;
+  onRemoveOutput: (id: string) => void;
+  onUpdateOutput: (id: string, changes: Partial<Pick<ProjectorOutput, 'name' | 'region' | 'blendGamma'>>) => void;
+  onOpenOutputWindow: (id: string) => void;
+  // Show file export / import
+  onExportShow: () => void;
+  onImportShow: (mode: ShowImportMode) => Promise<ShowImportReport | null>; // null when cancelled
+  // Named calibration profiles
+  profiles: CalibrationProfile[];
+  activeProfileId: string | null;
+  onSaveProfileAs: (name: string) => void;
+  onOverwriteProfile: (id: string) => void;
+  onLoadProfile: (id: string) => void;
+  onDuplicateProfile: (id: string) => void;
+  onRenameProfile: (id: string, name: string) => void;
+  onDeleteProfile: (id: string) => void;
   onGoToPlayback: () => void;
   videoUri: string | null;
   onVideoSelected: (uri: string, name?: string) => void;
@@ -29,12 +157,17 @@ type Props = {
   canRedo: boolean;
   onUndo: () => void;
   onRedo: () => void;
+  history: MeshHistory;
+  onJumpToHistory: (index: number) => void;
   // Cue management
   videoCues: VideoCue[];
   currentCueIndex: number;
   onSelectCue: (index: number) => void;
   onRemoveCue: (cueId: string) => void;
   onToggleCueLoop: (cueId: string) => void;
+  onUpdateCue: (cueId: string, changes: CueChanges) => void;
+  onMoveCue: (from: number, to: number) => void;
+  onDuplicateCue: (cueId: string) => void;
 };
 
 /**
@@ -46,8 +179,30 @@ type Props = {
 const CalibrationScreen: React.FC<Props> = ({
   mesh,
   onMeshChange,
+  onMeshPreview,
   onSaveMesh,
+  savedMesh,
   onResetMesh,
+  calibrationSettings,
+  onCalibrationSettingsChange,
+  outputs,
+  activeOutputId,
+  edgeBlend,
+  onSelectOutput,
+  onAddOutput,
+  onRemoveOutput,
+  onUpdateOutput,
+  onOpenOutputWindow,
+  onExportShow,
+  onImportShow,
+  profiles,
+  activeProfileId,
+  onSaveProfileAs,
+  onOverwriteProfile,
+  onLoadProfile,
+  onDuplicateProfile,
+  onRenameProfile,
+  onDeleteProfile,
   onGoToPlayback,
   videoUri,
   onVideoSelected,
@@ -55,14 +210,82 @@ const CalibrationScreen: React.FC<Props> = ({
   canRedo,
   onUndo,
   onRedo,
+  history,
+  onJumpToHistory,
   videoCues,
   currentCueIndex,
   onSelectCue,
   onRemoveCue,
   onToggleCueLoop,
+  onUpdateCue,
+  onMoveCue,
+  onDuplicateCue,
 }) => {
   const [showVideo, setShowVideo] = useState(false);
   const [showCueList, setShowCueList] = useState(false);
+  const [editMode, setEditMode] = useState<EditorMode>('mesh');
+  const [brushDarkens, setBrushDarkens] = useState(true);
+  const [activeMaskId, setActiveMaskId] = useState<string | null>(null);
+  const [selectedMaskPoint, setSelectedMaskPoint] = useState<number | null>(null);
+  const [showOutputs, setShowOutputs] = useState(false);
+  const [importReport, setImportReport] = useState<ShowImportReport | null>(null);
+  const [softSelection, setSoftSelection] = useState<SoftSelection>(DEFAULT_SOFT_SELECTION);
+  const [snapSettings, setSnapSettings] = useState<SnapSettings>(DEFAULT_SNAP_SETTINGS);
+  const [showSnap, setShowSnap] = useState(false);
+  const [testPattern, setTestPattern] = useState<TestPattern>(DEFAULT_TEST_PATTERN);
+  const [showPattern, setShowPattern] = useState(false);
+  const [showAutoCalibrate, setShowAutoCalibrate] = useState(false);
+  const [surfacePreset, setSurfacePreset] = useState<SurfacePreset>(DEFAULT_SURFACE_PRESET);
+  const [showSurface, setShowSurface] = useState(false);
+  const windowSize = useWindowDimensions();
+  const [editorSize, setEditorSize] = useState<Size | null>(null);
+  const [showProfiles, setShowProfiles] = useState(false);
+  const [selectedProfileId, setSelectedProfileId] = useState<string | null>(activeProfileId);
+  const [profileNameInput, setProfileNameInput] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
+  const [ghostSource, setGhostSource] = useState<GhostSource | null>(null);
+  const [showGhost, setShowGhost] = useState(false);
+  const [relaxSettings, setRelaxSettings] = useState<RelaxSettings>(DEFAULT_RELAX_SETTINGS);
+  const [showRelax, setShowRelax] = useState(false);
+  const [relaxPreview, setRelaxPreview] = useState(true);
+  const [lockedPointIds, setLockedPointIds] = useState<string[]>([]);
+
+  const masks = calibrationSettings.masks;
+  const activeMask = masks.find((m) => m.id === activeMaskId);
+  const brightness = calibrationSettings.brightness;
+  const activeOutput = outputs.find((o) => o.id === activeOutputId) ?? outputs[0];
+
+  const cornerPin = calibrationSettings.cornerPin;
+  const warpedMesh = useMemo(() => applyCornerPin(mesh, cornerPin), [mesh, cornerPin]);
+  // The editor fills the output being calibrated, so its shape is the output's
+  const { width: editorWidth, height: editorHeight } = editorSize ?? windowSize;
+  const editorAspect = editorWidth / editorHeight;
+
+  const ghost = useMemo(
+    () =>
+      ghostSource
+        ? resolveGhost(ghostSource, { savedMesh, profiles, outputId: activeOutputId, history })
+        : null,
+    [ghostSource, savedMesh, profiles, activeOutputId, history]
+  );
+  // Relaxed mesh shown instead of the working one until applied
+  const relaxedMesh = useMemo(
+    () => (showRelax && relaxPreview ? relaxMesh(mesh, relaxSettings, lockedPointIds) : null),
+    [showRelax, relaxPreview, mesh, relaxSettings, lockedPointIds]
+  );
+  // Folded / collapsed / stretched cells at the output's aspect: drawn in the
+  // editor (for the relax preview while it's shown) and checked on save
+  const meshProblems = useMemo(() => validateMesh(warpedMesh, editorAspect), [warpedMesh, editorAspect]);
+  const relaxedProblems = useMemo(
+    () => (relaxedMesh ? validateMesh(applyCornerPin(relaxedMesh, cornerPin), editorAspect) : null),
+    [relaxedMesh, cornerPin, editorAspect]
+  );
+  const movedPoints = useMemo(() => (ghost ? countMovedPoints(mesh, ghost.mesh) : 0), [mesh, ghost]);
+
+  const brightnessGains = useMemo(
+    () => getBrightnessGains(brightness, warpedMesh, calibrationSettings.interpolation),
+    [brightness, warpedMesh, calibrationSettings.interpolation]
+  );
 
   const pickVideo = async () => {
     // Request permission
@@ -91,7 +314,7 @@ const CalibrationScreen: React.FC<Props> = ({
     }
   };
 
-  const handleSave = () => {
+  const saveMesh = () => {
     onSaveMesh(mesh);
     Alert.alert(
       'Warp Saved',
@@ -103,6 +326,339 @@ const CalibrationScreen: React.FC<Props> = ({
     );
   };
 
+  // Folded or collapsed cells render as garbage, so confirm before saving them
+  const handleSave = () => {
+    if (meshProblems.length === 0) {
+      saveMesh();
+      return;
+    }
+    confirmAction(
+      'Mesh Problems',
+      `${meshProblems.length} cell(s) will not render correctly (${describeProblems(meshProblems)}). They are shown in red.`,
+      'Save Anyway',
+      saveMesh,
+      'Keep Editing'
+    );
+  };
+
+  const { rows, cols } = getMeshDimensions(mesh);
+
+  // Change mesh density, resampling the current warp onto the new grid
+  const handleDensityChange = (newRows: number, newCols: number) => {
+    const clampedRows = Math.max(MIN_MESH_SIZE, Math.min(MAX_MESH_SIZE, newRows));
+    const clampedCols = Math.max(MIN_MESH_SIZE, Math.min(MAX_MESH_SIZE, newCols));
+    if (clampedRows === rows && clampedCols === cols) return;
+    onMeshChange(
+      resampleMesh(mesh, clampedRows, clampedCols, calibrationSettings.interpolation),
+      `Resize mesh to ${clampedRows}×${clampedCols}`
+    );
+  };
+
+  const updateSoftSelection = (changes: Partial<SoftSelection>) => {
+    setSoftSelection((prev) => ({ ...prev, ...changes }));
+  };
+
+  const handleSoftRadiusChange = (delta: number) => {
+    updateSoftSelection({
+      radius: clampSoftRadius(Math.round((softSelection.radius + delta) * 100) / 100),
+    });
+  };
+
+  const updateSnapSettings = (changes: Partial<SnapSettings>) => {
+    setSnapSettings((prev) => ({ ...prev, ...changes }));
+  };
+
+  const handlePixelGridChange = (delta: number) => {
+    updateSnapSettings({
+      pixelGridSize: Math.max(
+        MIN_PIXEL_GRID,
+        Math.min(MAX_PIXEL_GRID, snapSettings.pixelGridSize + delta)
+      ),
+    });
+  };
+
+  const showMeshPanel =
+    (softSelection.enabled || showSnap || showRelax || (showPattern && !showVideo)) &&
+    editMode === 'mesh' &&
+    !showOutputs &&
+    !showSurface &&
+    !showProfiles &&
+    !showHistory &&
+    !showGhost;
+
+  const updateRelaxSettings = (changes: Partial<RelaxSettings>) => {
+    setRelaxSettings((prev) => ({ ...prev, ...changes }));
+  };
+
+  const handleApplyRelax = () => {
+    const method = RELAX_METHODS.find((m) => m.method === relaxSettings.method)?.label ?? relaxSettings.method;
+    onMeshChange(
+      relaxedMesh ?? relaxMesh(mesh, relaxSettings, lockedPointIds),
+      `Relax mesh (${method}, ${relaxSettings.iterations}×)`
+    );
+    setShowRelax(false);
+  };
+
+  const updateTestPattern = (changes: Partial<TestPattern>) => {
+    setTestPattern((prev) => ({ ...prev, ...changes }));
+  };
+
+  const cycleSymmetry = () => {
+    onCalibrationSettingsChange({
+      ...calibrationSettings,
+      symmetry: nextSymmetryMode(calibrationSettings.symmetry),
+    });
+  };
+
+  const toggleInterpolation = () => {
+    onCalibrationSettingsChange({
+      ...calibrationSettings,
+      interpolation: calibrationSettings.interpolation === 'spline' ? 'bilinear' : 'spline',
+    });
+  };
+
+  // Preview and playback triangulate each cell the same way
+  const handleSubdivisionsChange = (delta: number) => {
+    onCalibrationSettingsChange({
+      ...calibrationSettings,
+      subdivisions: Math.max(
+        MIN_SUBDIVISIONS,
+        Math.min(MAX_SUBDIVISIONS, calibrationSettings.subdivisions + delta)
+      ),
+    });
+  };
+
+  // Corner pin (perspective pre-warp)
+  const setCornerPin = (corners: CornerPin) => {
+    onCalibrationSettingsChange({ ...calibrationSettings, cornerPin: corners });
+  };
+
+  // Replace the mesh and clear the corner pin as one undo step
+  const replaceMeshAndCornerPin = (newMesh: Mesh, label: string) => {
+    onMeshChange(newMesh, label, false, { before: cornerPin, after: IDENTITY_CORNER_PIN });
+    setCornerPin(IDENTITY_CORNER_PIN);
+  };
+
+  // Fold the corner pin into the mesh points; the image stays the same
+  const handleBakeCornerPin = () => {
+    replaceMeshAndCornerPin(warpedMesh, 'Bake corner pin');
+  };
+
+  // Solved positions are final projector positions, so drop the corner pin
+  const handleAutoCalibrate = (solved: Mesh) => {
+    replaceMeshAndCornerPin(solved, 'Auto-calibrate');
+    setShowAutoCalibrate(false);
+  };
+
+  // Seed the mesh from the surface preset (replaces the warp, undoable)
+  const handleApplySurfacePreset = () => {
+    const seeded = buildSurfaceMesh(surfacePreset, rows, cols, editorAspect);
+    const { label } = SURFACE_TYPES.find((t) => t.type === surfacePreset.type) ?? SURFACE_TYPES[0];
+    replaceMeshAndCornerPin(seeded, `Apply ${label.toLowerCase()} preset`);
+
+    const outside = countOutOfFrame(seeded);
+    if (outside > 0) {
+      Alert.alert(
+        'Surface Preset',
+        `${outside} point(s) fall outside the projected image. Move the projector back or use a shorter throw ratio.`
+      );
+    }
+  };
+
+  const handleSurfaceFieldChange = (key: SurfaceField, delta: number, min: number) => {
+    const value = Math.round((surfacePreset[key] + delta) * 100) / 100;
+    setSurfacePreset((prev) => ({ ...prev, [key]: Math.max(min, value) }));
+  };
+
+  const toggleSurfacePanel = () => {
+    setShowSurface((prev) => !prev);
+    setShowOutputs(false);
+    setShowProfiles(false);
+    setShowHistory(false);
+    setShowGhost(false);
+    setEditMode('mesh');
+  };
+
+  const toggleHistoryPanel = () => {
+    setShowHistory((prev) => !prev);
+    setShowOutputs(false);
+    setShowSurface(false);
+    setShowProfiles(false);
+    setShowGhost(false);
+    setEditMode('mesh');
+  };
+
+  // Onion skin
+  const toggleGhostPanel = () => {
+    setShowGhost((prev) => !prev);
+    setShowOutputs(false);
+    setShowSurface(false);
+    setShowProfiles(false);
+    setShowHistory(false);
+    setEditMode('mesh');
+  };
+
+  const stepGhostHistory = (delta: number) => {
+    const current = ghostSource?.kind === 'history' ? ghostSource.index : history.index;
+    const index = Math.max(0, Math.min(history.entries.length - 1, current + delta));
+    setGhostSource({ kind: 'history', index });
+  };
+
+  const handleRevertAll = () => {
+    if (!ghost) return;
+    onMeshChange(revertPoints(mesh, ghost.mesh, mesh.map((p) => p.id)), `Revert all to ${ghost.label}`);
+  };
+
+  // Profiles
+  const selectedProfile = profiles.find((p) => p.id === selectedProfileId);
+
+  const toggleProfilesPanel = () => {
+    setShowProfiles((prev) => !prev);
+    setShowOutputs(false);
+    setShowSurface(false);
+    setShowHistory(false);
+    setShowGhost(false);
+    setEditMode('mesh');
+    setSelectedProfileId(activeProfileId);
+    setProfileNameInput('');
+  };
+
+  const handleSaveProfileAs = () => {
+    onSaveProfileAs(profileNameInput.trim() || nextProfileName(profiles));
+    setProfileNameInput('');
+  };
+
+  const handleRenameProfile = () => {
+    const name = profileNameInput.trim();
+    if (!selectedProfile || !name) return;
+    onRenameProfile(selectedProfile.id, name);
+    setProfileNameInput('');
+  };
+
+  const handleDeleteProfile = () => {
+    if (!selectedProfile) return;
+    confirmAction(
+      `Delete ${selectedProfile.name}?`,
+      'The saved calibration will be removed. The current warp is kept.',
+      'Delete',
+      () => {
+        onDeleteProfile(selectedProfile.id);
+        setSelectedProfileId(null);
+      }
+    );
+  };
+
+  const toggleCornerMode = () => {
+    setShowOutputs(false);
+    setEditMode(editMode === 'corners' ? 'mesh' : 'corners');
+  };
+
+  // Mask editing
+  const setMasks = (newMasks: Mask[]) => {
+    onCalibrationSettingsChange({ ...calibrationSettings, masks: newMasks });
+  };
+
+  const updateActiveMask = (changes: Partial<Mask>) => {
+    if (!activeMask) return;
+    setMasks(masks.map((m) => (m.id === activeMask.id ? { ...m, ...changes } : m)));
+  };
+
+  const selectMask = (id: string | null) => {
+    setActiveMaskId(id);
+    setSelectedMaskPoint(null);
+  };
+
+  const handleAddMask = () => {
+    const mask = createMask(masks.length);
+    setMasks([...masks, mask]);
+    selectMask(mask.id);
+  };
+
+  const handleDeleteMask = () => {
+    if (!activeMask) return;
+    setMasks(masks.filter((m) => m.id !== activeMask.id));
+    selectMask(null);
+  };
+
+  const handleDeleteMaskPoint = () => {
+    if (!activeMask || selectedMaskPoint === null) return;
+    setMasks(masks.map((m) => (m.id === activeMask.id ? removeMaskPoint(m, selectedMaskPoint) : m)));
+    setSelectedMaskPoint(null);
+  };
+
+  const handleFeatherChange = (delta: number) => {
+    if (!activeMask) return;
+    updateActiveMask({
+      feather: Math.max(0, Math.min(MAX_MASK_FEATHER, activeMask.feather + delta)),
+    });
+  };
+
+  // Mask, brightness and output panels share the top of the screen
+  const toggleOutputsPanel = () => {
+    setShowOutputs((prev) => !prev);
+    setShowSurface(false);
+    setShowProfiles(false);
+    setShowHistory(false);
+    setShowGhost(false);
+    setEditMode('mesh');
+  };
+
+  const toggleMaskMode = () => {
+    setShowOutputs(false);
+    if (editMode === 'mask') {
+      setEditMode('mesh');
+      return;
+    }
+    setEditMode('mask');
+    if (!activeMask && masks.length > 0) selectMask(masks[0].id);
+  };
+
+  // Brightness compensation
+  const updateBrightness = (changes: Partial<BrightnessSettings>) => {
+    onCalibrationSettingsChange({
+      ...calibrationSettings,
+      brightness: { ...brightness, ...changes },
+    });
+  };
+
+  const handleStrengthChange = (delta: number) => {
+    const strength = Math.round((brightness.strength + delta) * 10) / 10;
+    updateBrightness({ strength: Math.max(0, Math.min(1, strength)) });
+  };
+
+  // Projector outputs: nudge the part of the source this output shows
+  const handleRegionChange = (key: keyof ContentRegion, delta: number) => {
+    const region = { ...activeOutput.region };
+    const value = Math.round((region[key] + delta) * 100) / 100;
+    if (key === 'x' || key === 'y') {
+      const size = key === 'x' ? region.width : region.height;
+      region[key] = Math.max(0, Math.min(1 - size, value));
+    } else {
+      const start = key === 'width' ? region.x : region.y;
+      region[key] = Math.max(MIN_REGION_SIZE, Math.min(1 - start, value));
+    }
+    onUpdateOutput(activeOutput.id, { region });
+  };
+
+  const handleBlendGammaChange = (delta: number) => {
+    const gamma = Math.round((activeOutput.blendGamma + delta) * 10) / 10;
+    onUpdateOutput(activeOutput.id, { blendGamma: Math.max(1, Math.min(3, gamma)) });
+  };
+
+  const handleImportShow = async (importMode: ShowImportMode) => {
+    const report = await onImportShow(importMode);
+    if (report) setImportReport(report);
+  };
+
+  const handleRemoveOutput = () => {
+    confirmAction(
+      `Remove ${activeOutput.name}?`,
+      'Its mesh, masks and brightness settings will be deleted.',
+      'Remove',
+      () => onRemoveOutput(activeOutput.id)
+    );
+  };
+
   const handleReset = () => {
     Alert.alert(
       'Reset Mesh?',
@@ -117,50 +673,644 @@ const CalibrationScreen: React.FC<Props> = ({
   return (
     <SafeAreaView style={styles.container}>
       {/* Mesh Editor - fullscreen */}
-      <View style={styles.editorContainer}>
+      <View
+        style={styles.editorContainer}
+        onLayout={(e: LayoutChangeEvent) => {
+          const { width, height } = e.nativeEvent.layout;
+          setEditorSize({ width, height });
+        }}
+      >
         <MeshWarpEditor
-          mesh={mesh}
+          mesh={relaxedMesh ?? mesh}
           onMeshChange={onMeshChange}
+          onMeshPreview={onMeshPreview}
           showVideo={showVideo}
+          testPattern={showPattern ? testPattern : null}
           videoUri={videoUri}
-          editable={true}
+          editable={!relaxedMesh}
+          interpolation={calibrationSettings.interpolation}
+          subdivisions={calibrationSettings.subdivisions}
+          editMode={editMode}
+          symmetry={calibrationSettings.symmetry}
+          softSelection={softSelection}
+          onSoftSelectionChange={setSoftSelection}
+          snapSettings={snapSettings}
+          lockedPointIds={lockedPointIds}
+          onLockedPointIdsChange={setLockedPointIds}
+          cornerPin={cornerPin}
+          onCornerPinChange={setCornerPin}
+          masks={masks}
+          onMasksChange={setMasks}
+          activeMaskId={activeMaskId}
+          selectedMaskPoint={selectedMaskPoint}
+          onSelectMaskPoint={setSelectedMaskPoint}
+          brightnessGains={brightnessGains}
+          paintedBrightness={brightness.mode === 'painted' ? brightness.painted : undefined}
+          onPaintedBrightnessChange={(painted) => updateBrightness({ painted })}
+          brushAmount={brushDarkens ? -BRUSH_STEP : BRUSH_STEP}
+          ghostMesh={relaxedMesh ? mesh : ghost?.mesh ?? null}
+          ghostLabel={ghost?.label}
+          invalidCells={relaxedProblems ?? meshProblems}
+          region={activeOutput.region}
+          edgeBlend={edgeBlend}
         />
       </View>
 
-      {/* Cue List Panel (collapsible) */}
-      {showCueList && videoCues.length > 0 && (
-        <View style={styles.cueListPanel}>
-          <Text style={styles.cueListTitle}>Video Cues ({videoCues.length})</Text>
+      {/* Outputs Panel */}
+      {showOutputs && (
+        <View style={styles.maskPanel}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            {outputs.map((output) => (
+              <TouchableOpacity
+                key={output.id}
+                style={[styles.maskChip, output.id === activeOutput.id && styles.outputChipActive]}
+                onPress={() => onSelectOutput(output.id)}
+              >
+                <Text style={styles.buttonText}>{output.name}</Text>
+              </TouchableOpacity>
+            ))}
+            {outputs.length < MAX_OUTPUTS && (
+              <TouchableOpacity style={styles.maskChip} onPress={onAddOutput}>
+                <Text style={styles.buttonText}>+ Output</Text>
+              </TouchableOpacity>
+            )}
+          </ScrollView>
+
+          <View style={styles.maskActions}>
+            {REGION_FIELDS.map(({ key, label }) => (
+              <React.Fragment key={key}>
+                <Text style={styles.densityLabel}>{label}</Text>
+                <TouchableOpacity
+                  style={styles.stepButton}
+                  onPress={() => handleRegionChange(key, -REGION_STEP)}
+                >
+                  <Text style={styles.buttonText}>−</Text>
+                </TouchableOpacity>
+                <Text style={styles.densityValue}>{Math.round(activeOutput.region[key] * 100)}%</Text>
+                <TouchableOpacity
+                  style={styles.stepButton}
+                  onPress={() => handleRegionChange(key, REGION_STEP)}
+                >
+                  <Text style={styles.buttonText}>+</Text>
+                </TouchableOpacity>
+              </React.Fragment>
+            ))}
+            <Text style={styles.densityLabel}>Blend γ</Text>
+            <TouchableOpacity style={styles.stepButton} onPress={() => handleBlendGammaChange(-0.1)}>
+              <Text style={styles.buttonText}>−</Text>
+            </TouchableOpacity>
+            <Text style={styles.densityValue}>{activeOutput.blendGamma.toFixed(1)}</Text>
+            <TouchableOpacity style={styles.stepButton} onPress={() => handleBlendGammaChange(0.1)}>
+              <Text style={styles.buttonText}>+</Text>
+            </TouchableOpacity>
+            {Platform.OS === 'web' && (
+              <TouchableOpacity
+                style={styles.smallButton}
+                onPress={() => onOpenOutputWindow(activeOutput.id)}
+              >
+                <Text style={styles.buttonText}>↗ Open Window</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[styles.smallButton, styles.resetButton, outputs.length <= 1 && styles.buttonDisabled]}
+              onPress={handleRemoveOutput}
+              disabled={outputs.length <= 1}
+            >
+              <Text style={styles.buttonText}>🗑 Output</Text>
+            </TouchableOpacity>
+          </View>
+
+          {/* Whole show (all outputs + cues) to / from a file */}
+          <View style={styles.maskActions}>
+            <Text style={styles.densityLabel}>Show file</Text>
+            <TouchableOpacity style={styles.smallButton} onPress={onExportShow}>
+              <Text style={styles.buttonText}>⤒ Export</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.smallButton} onPress={() => handleImportShow('replace')}>
+              <Text style={styles.buttonText}>⤓ Import (Replace)</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.smallButton} onPress={() => handleImportShow('merge')}>
+              <Text style={styles.buttonText}>⤓ Import (Merge)</Text>
+            </TouchableOpacity>
+          </View>
+
+          {/* Last import's result; tap to dismiss */}
+          {importReport && (
+            <TouchableOpacity
+              style={[styles.importReport, !importReport.ok && styles.importReportFailed]}
+              onPress={() => setImportReport(null)}
+            >
+              <Text style={styles.buttonText}>
+                {importReport.ok ? 'Show imported' : 'Import failed'} ✕
+              </Text>
+              <ScrollView style={styles.importReportList}>
+                {importReport.messages.map((message, i) => (
+                  <Text key={i} style={styles.importMessage}>{message}</Text>
+                ))}
+              </ScrollView>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      {/* Profiles Panel */}
+      {showProfiles && editMode === 'mesh' && (
+        <View style={styles.maskPanel}>
           <ScrollView horizontal showsHorizontalScrollIndicator={false}>
-            {videoCues.map((cue, index) => (
+            {profiles.map((profile) => (
               <TouchableOpacity
-                key={cue.id}
+                key={profile.id}
+                style={[styles.profileCard, profile.id === selectedProfileId && styles.outputChipActive]}
+                onPress={() => setSelectedProfileId(profile.id)}
+              >
+                <MeshThumbnail calibration={profile.outputs[0]} width={64} height={40} />
+                <Text style={styles.buttonText} numberOfLines={1}>
+                  {profile.id === activeProfileId ? '● ' : ''}
+                  {profile.name}
+                </Text>
+                <Text style={styles.profileDate}>{formatProfileDate(profile.updatedAt)}</Text>
+              </TouchableOpacity>
+            ))}
+            {profiles.length === 0 && (
+              <Text style={styles.densityLabel}>No saved profiles yet</Text>
+            )}
+          </ScrollView>
+
+          <View style={styles.maskActions}>
+            <TextInput
+              style={styles.profileInput}
+              value={profileNameInput}
+              onChangeText={setProfileNameInput}
+              placeholder={nextProfileName(profiles)}
+              placeholderTextColor="#777"
+            />
+            <TouchableOpacity style={styles.smallButton} onPress={handleSaveProfileAs}>
+              <Text style={styles.buttonText}>＋ Save As New</Text>
+            </TouchableOpacity>
+            {selectedProfile && (
+              <>
+                <TouchableOpacity style={styles.smallButton} onPress={() => onLoadProfile(selectedProfile.id)}>
+                  <Text style={styles.buttonText}>⤓ Load</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.smallButton} onPress={() => onOverwriteProfile(selectedProfile.id)}>
+                  <Text style={styles.buttonText}>💾 Save Here</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.smallButton} onPress={() => onDuplicateProfile(selectedProfile.id)}>
+                  <Text style={styles.buttonText}>⧉ Duplicate</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.smallButton, !profileNameInput.trim() && styles.buttonDisabled]}
+                  onPress={handleRenameProfile}
+                  disabled={!profileNameInput.trim()}
+                >
+                  <Text style={styles.buttonText}>✎ Rename</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={[styles.smallButton, styles.resetButton]} onPress={handleDeleteProfile}>
+                  <Text style={styles.buttonText}>🗑</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </View>
+      )}
+
+      {/* History Panel (undone entries dimmed until something new is done) */}
+      {showHistory && editMode === 'mesh' && (
+        <View style={styles.maskPanel}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            {history.entries.map((entry, index) => (
+              <TouchableOpacity
+                key={`${index}-${entry.time}`}
                 style={[
-                  styles.cueItem,
-                  index === currentCueIndex && styles.cueItemActive,
+                  styles.maskChip,
+                  index === history.index && styles.outputChipActive,
+                  index > history.index && styles.historyChipUndone,
                 ]}
-                onPress={() => onSelectCue(index)}
-                onLongPress={() => {
-                  Alert.alert(
-                    cue.name,
-                    `Loop: ${cue.loop ? 'On' : 'Off'}`,
-                    [
-                      { text: 'Cancel', style: 'cancel' },
-                      { text: cue.loop ? 'Disable Loop' : 'Enable Loop', onPress: () => onToggleCueLoop(cue.id) },
-                      { text: 'Remove', style: 'destructive', onPress: () => onRemoveCue(cue.id) },
-                    ]
-                  );
-                }}
+                onPress={() => onJumpToHistory(index)}
               >
-                <Text style={styles.cueNumber}>{index + 1}</Text>
-                <Text style={styles.cueName} numberOfLines={1}>{cue.name}</Text>
-                {cue.loop && <Text style={styles.cueLoop}>🔁</Text>}
+                <Text style={styles.buttonText}>{entry.label}</Text>
+                <Text style={styles.profileDate}>{formatHistoryTime(entry.time)}</Text>
               </TouchableOpacity>
             ))}
           </ScrollView>
         </View>
       )}
 
+      {/* Onion Skin Panel: what to draw under the live mesh */}
+      {showGhost && editMode === 'mesh' && (
+        <View style={styles.maskPanel}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            <TouchableOpacity
+              style={[styles.maskChip, !ghostSource && styles.outputChipActive]}
+              onPress={() => setGhostSource(null)}
+            >
+              <Text style={styles.buttonText}>Off</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.maskChip, ghostSource?.kind === 'saved' && styles.outputChipActive]}
+              onPress={() => setGhostSource({ kind: 'saved' })}
+            >
+              <Text style={styles.buttonText}>💾 Saved</Text>
+            </TouchableOpacity>
+            {profiles.map((profile) => (
+              <TouchableOpacity
+                key={profile.id}
+                style={[
+                  styles.maskChip,
+                  ghostSource?.kind === 'profile' && ghostSource.profileId === profile.id && styles.outputChipActive,
+                ]}
+                onPress={() => setGhostSource({ kind: 'profile', profileId: profile.id })}
+              >
+                <Text style={styles.buttonText}>📂 {profile.name}</Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+
+          <View style={styles.maskActions}>
+            <Text style={styles.densityLabel}>History</Text>
+            <TouchableOpacity style={styles.stepButton} onPress={() => stepGhostHistory(-1)}>
+              <Text style={styles.buttonText}>−</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.maskChip, ghostSource?.kind === 'history' && styles.outputChipActive]}
+              onPress={() => stepGhostHistory(0)}
+            >
+              <Text style={styles.buttonText} numberOfLines={1}>
+                🕘 {ghostSource?.kind === 'history' ? ghost?.label ?? '—' : 'Pick entry'}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.stepButton} onPress={() => stepGhostHistory(1)}>
+              <Text style={styles.buttonText}>+</Text>
+            </TouchableOpacity>
+            {ghost && (
+              <>
+                <Text style={styles.densityLabel}>
+                  {movedPoints} of {mesh.length} points moved
+                </Text>
+                <TouchableOpacity
+                  style={[styles.smallButton, movedPoints === 0 && styles.buttonDisabled]}
+                  onPress={handleRevertAll}
+                  disabled={movedPoints === 0}
+                >
+                  <Text style={styles.buttonText}>↺ Revert All</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </View>
+      )}
+
+      {/* Surface Preset Panel */}
+      {showSurface && editMode === 'mesh' && (
+        <View style={styles.maskPanel}>
+          <View style={styles.maskActions}>
+            {SURFACE_TYPES.map(({ type, label }) => (
+              <TouchableOpacity
+                key={type}
+                style={[styles.maskChip, surfacePreset.type === type && styles.outputChipActive]}
+                onPress={() => setSurfacePreset((prev) => ({ ...prev, type }))}
+              >
+                <Text style={styles.buttonText}>{label}</Text>
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity style={styles.smallButton} onPress={handleApplySurfacePreset}>
+              <Text style={styles.buttonText}>⤓ Seed Mesh</Text>
+            </TouchableOpacity>
+          </View>
+          <View style={[styles.maskActions, styles.wrapRow]}>
+            {SURFACE_FIELDS.map(({ key, label, step, min }) => (
+              <React.Fragment key={key}>
+                <Text style={styles.densityLabel}>{label}</Text>
+                <TouchableOpacity
+                  style={styles.stepButton}
+                  onPress={() => handleSurfaceFieldChange(key, -step, min)}
+                >
+                  <Text style={styles.buttonText}>−</Text>
+                </TouchableOpacity>
+                <Text style={styles.densityValue}>{surfacePreset[key].toFixed(2)}</Text>
+                <TouchableOpacity
+                  style={styles.stepButton}
+                  onPress={() => handleSurfaceFieldChange(key, step, min)}
+                >
+                  <Text style={styles.buttonText}>+</Text>
+                </TouchableOpacity>
+              </React.Fragment>
+            ))}
+          </View>
+        </View>
+      )}
+
+      {/* Soft Selection / Snapping / Test Pattern Panel (mesh edit mode) */}
+      {showMeshPanel && (
+        <View style={styles.maskPanel}>
+          {softSelection.enabled && (
+            <View style={styles.maskActions}>
+              <Text style={styles.densityLabel}>Radius</Text>
+              <TouchableOpacity style={styles.stepButton} onPress={() => handleSoftRadiusChange(-0.02)}>
+                <Text style={styles.buttonText}>−</Text>
+              </TouchableOpacity>
+              <Text style={styles.densityValue}>{Math.round(softSelection.radius * 100)}%</Text>
+              <TouchableOpacity style={styles.stepButton} onPress={() => handleSoftRadiusChange(0.02)}>
+                <Text style={styles.buttonText}>+</Text>
+              </TouchableOpacity>
+              {FALLOFF_CURVES.map(({ curve, label }) => (
+                <TouchableOpacity
+                  key={curve}
+                  style={[styles.maskChip, softSelection.curve === curve && styles.softChipActive]}
+                  onPress={() => updateSoftSelection({ curve })}
+                >
+                  <Text style={styles.buttonText}>{label}</Text>
+                </TouchableOpacity>
+              ))}
+              <Text style={styles.densityLabel}>Pinch to resize</Text>
+            </View>
+          )}
+          {showSnap && (
+            <View style={styles.maskActions}>
+              <Text style={styles.densityLabel}>Snap to</Text>
+              <TouchableOpacity
+                style={[styles.maskChip, snapSettings.toOriginal && styles.snapChipActive]}
+                onPress={() => updateSnapSettings({ toOriginal: !snapSettings.toOriginal })}
+              >
+                <Text style={styles.buttonText}>Original</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.maskChip, snapSettings.toNeighbours && styles.snapChipActive]}
+                onPress={() => updateSnapSettings({ toNeighbours: !snapSettings.toNeighbours })}
+              >
+                <Text style={styles.buttonText}>Neighbours</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.maskChip, snapSettings.toPixelGrid && styles.snapChipActive]}
+                onPress={() => updateSnapSettings({ toPixelGrid: !snapSettings.toPixelGrid })}
+              >
+                <Text style={styles.buttonText}>Pixel Grid</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.stepButton} onPress={() => handlePixelGridChange(-2)}>
+                <Text style={styles.buttonText}>−</Text>
+              </TouchableOpacity>
+              <Text style={styles.densityValue}>{snapSettings.pixelGridSize}px</Text>
+              <TouchableOpacity style={styles.stepButton} onPress={() => handlePixelGridChange(2)}>
+                <Text style={styles.buttonText}>+</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+          {showRelax && (
+            <View style={styles.maskActions}>
+              {RELAX_METHODS.map(({ method, label }) => (
+                <TouchableOpacity
+                  key={method}
+                  style={[styles.maskChip, relaxSettings.method === method && styles.outputChipActive]}
+                  onPress={() => updateRelaxSettings({ method })}
+                >
+                  <Text style={styles.buttonText}>{label}</Text>
+                </TouchableOpacity>
+              ))}
+              <Text style={styles.densityLabel}>Strength</Text>
+              <TouchableOpacity
+                style={styles.stepButton}
+                onPress={() => updateRelaxSettings({ strength: clampRelaxStrength(relaxSettings.strength - 0.05) })}
+              >
+                <Text style={styles.buttonText}>−</Text>
+              </TouchableOpacity>
+              <Text style={styles.densityValue}>{Math.round(relaxSettings.strength * 100)}%</Text>
+              <TouchableOpacity
+                style={styles.stepButton}
+                onPress={() => updateRelaxSettings({ strength: clampRelaxStrength(relaxSettings.strength + 0.05) })}
+              >
+                <Text style={styles.buttonText}>+</Text>
+              </TouchableOpacity>
+              <Text style={styles.densityLabel}>Passes</Text>
+              <TouchableOpacity
+                style={[styles.stepButton, relaxSettings.iterations <= MIN_RELAX_ITERATIONS && styles.buttonDisabled]}
+                onPress={() => updateRelaxSettings({ iterations: clampRelaxIterations(relaxSettings.iterations - 1) })}
+                disabled={relaxSettings.iterations <= MIN_RELAX_ITERATIONS}
+              >
+                <Text style={styles.buttonText}>−</Text>
+              </TouchableOpacity>
+              <Text style={styles.densityValue}>{relaxSettings.iterations}</Text>
+              <TouchableOpacity
+                style={[styles.stepButton, relaxSettings.iterations >= MAX_RELAX_ITERATIONS && styles.buttonDisabled]}
+                onPress={() => updateRelaxSettings({ iterations: clampRelaxIterations(relaxSettings.iterations + 1) })}
+                disabled={relaxSettings.iterations >= MAX_RELAX_ITERATIONS}
+              >
+                <Text style={styles.buttonText}>+</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.maskChip, relaxSettings.keepBoundary && styles.outputChipActive]}
+                onPress={() => updateRelaxSettings({ keepBoundary: !relaxSettings.keepBoundary })}
+              >
+                <Text style={styles.buttonText}>Keep Edges</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.maskChip, lockedPointIds.length === 0 && styles.buttonDisabled]}
+                onPress={() => setLockedPointIds([])}
+                disabled={lockedPointIds.length === 0}
+              >
+                <Text style={styles.buttonText}>🔓 Unlock All ({lockedPointIds.length})</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.maskChip, relaxPreview && styles.outputChipActive]}
+                onPress={() => setRelaxPreview((prev) => !prev)}
+              >
+                <Text style={styles.buttonText}>👁 Preview</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={[styles.smallButton, styles.saveButton]} onPress={handleApplyRelax}>
+                <Text style={styles.buttonText}>✓ Apply</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+          {showPattern && !showVideo && (
+            <View style={styles.maskActions}>
+              {TEST_PATTERNS.map(({ type, label }) => (
+                <TouchableOpacity
+                  key={type}
+                  style={[styles.maskChip, testPattern.type === type && styles.outputChipActive]}
+                  onPress={() => updateTestPattern({ type })}
+                >
+                  <Text style={styles.buttonText}>{label}</Text>
+                </TouchableOpacity>
+              ))}
+              <Text style={styles.densityLabel}>Cells</Text>
+              <TouchableOpacity
+                style={[styles.stepButton, testPattern.cellsPerMeshCell <= MIN_PATTERN_CELLS && styles.buttonDisabled]}
+                onPress={() => updateTestPattern({ cellsPerMeshCell: clampPatternCells(testPattern.cellsPerMeshCell - 1) })}
+                disabled={testPattern.cellsPerMeshCell <= MIN_PATTERN_CELLS}
+              >
+                <Text style={styles.buttonText}>−</Text>
+              </TouchableOpacity>
+              <Text style={styles.densityValue}>{testPattern.cellsPerMeshCell}</Text>
+              <TouchableOpacity
+                style={[styles.stepButton, testPattern.cellsPerMeshCell >= MAX_PATTERN_CELLS && styles.buttonDisabled]}
+                onPress={() => updateTestPattern({ cellsPerMeshCell: clampPatternCells(testPattern.cellsPerMeshCell + 1) })}
+                disabled={testPattern.cellsPerMeshCell >= MAX_PATTERN_CELLS}
+              >
+                <Text style={styles.buttonText}>+</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.maskChip}
+                onPress={() => updateTestPattern({ foreground: nextPatternColor(testPattern.foreground) })}
+              >
+                <Text style={styles.buttonText}>
+                  <Text style={{ color: testPattern.foreground }}>■</Text> Color
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.maskChip}
+                onPress={() => updateTestPattern({ background: nextPatternColor(testPattern.background) })}
+              >
+                <Text style={styles.buttonText}>
+                  <Text style={{ color: testPattern.background }}>■</Text> Background
+                </Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      )}
+
+      {/* Corner Pin Panel (corners edit mode) */}
+      {editMode === 'corners' && (
+        <View style={styles.maskPanel}>
+          <View style={styles.maskActions}>
+            <TouchableOpacity
+              style={[styles.smallButton, isIdentityCornerPin(cornerPin) && styles.buttonDisabled]}
+              onPress={() => setCornerPin(IDENTITY_CORNER_PIN)}
+              disabled={isIdentityCornerPin(cornerPin)}
+            >
+              <Text style={styles.buttonText}>↺ Corners</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.smallButton,
+                styles.saveButton,
+                isIdentityCornerPin(cornerPin) && styles.buttonDisabled,
+              ]}
+              onPress={handleBakeCornerPin}
+              disabled={isIdentityCornerPin(cornerPin)}
+            >
+              <Text style={styles.buttonText}>⤓ Bake into Mesh</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {/* Brightness Panel (brightness edit mode) */}
+      {editMode === 'brightness' && (
+        <View style={styles.maskPanel}>
+          <View style={styles.maskActions}>
+            {BRIGHTNESS_MODES.map(({ mode, label }) => (
+              <TouchableOpacity
+                key={mode}
+                style={[styles.maskChip, brightness.mode === mode && styles.brightnessChipActive]}
+                onPress={() => updateBrightness({ mode })}
+              >
+                <Text style={styles.buttonText}>{label}</Text>
+              </TouchableOpacity>
+            ))}
+            <Text style={styles.densityLabel}>Strength</Text>
+            <TouchableOpacity style={styles.stepButton} onPress={() => handleStrengthChange(-0.1)}>
+              <Text style={styles.buttonText}>−</Text>
+            </TouchableOpacity>
+            <Text style={styles.densityValue}>{Math.round(brightness.strength * 100)}%</Text>
+            <TouchableOpacity style={styles.stepButton} onPress={() => handleStrengthChange(0.1)}>
+              <Text style={styles.buttonText}>+</Text>
+            </TouchableOpacity>
+            {brightness.mode === 'painted' && (
+              <>
+                <TouchableOpacity
+                  style={styles.smallButton}
+                  onPress={() => setBrushDarkens((prev) => !prev)}
+                >
+                  <Text style={styles.buttonText}>{brushDarkens ? '🌑 Darken' : '☀ Brighten'}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.smallButton, styles.resetButton]}
+                  onPress={() => updateBrightness({ painted: createBrightnessMap() })}
+                >
+                  <Text style={styles.buttonText}>Clear</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </View>
+      )}
+
+      {/* Mask Panel (mask edit mode) */}
+      {editMode === 'mask' && (
+        <View style={styles.maskPanel}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            {masks.map((mask) => (
+              <TouchableOpacity
+                key={mask.id}
+                style={[styles.maskChip, mask.id === activeMaskId && styles.maskChipActive]}
+                onPress={() => selectMask(mask.id)}
+              >
+                <Text style={styles.buttonText}>
+                  {mask.name}{mask.inverted ? ' (inv)' : ''}
+                </Text>
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity style={styles.maskChip} onPress={handleAddMask}>
+              <Text style={styles.buttonText}>+ Mask</Text>
+            </TouchableOpacity>
+          </ScrollView>
+
+          {activeMask && (
+            <View style={styles.maskActions}>
+              <TouchableOpacity
+                style={[styles.smallButton, activeMask.inverted && styles.maskOptionOn]}
+                onPress={() => updateActiveMask({ inverted: !activeMask.inverted })}
+              >
+                <Text style={styles.buttonText}>◑ Invert</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.smallButton, activeMask.smooth && styles.maskOptionOn]}
+                onPress={() => updateActiveMask({ smooth: !activeMask.smooth })}
+              >
+                <Text style={styles.buttonText}>
+                  {activeMask.smooth ? '◯ Curve' : '⬠ Polygon'}
+                </Text>
+              </TouchableOpacity>
+              <Text style={styles.densityLabel}>Feather</Text>
+              <TouchableOpacity style={styles.stepButton} onPress={() => handleFeatherChange(-4)}>
+                <Text style={styles.buttonText}>−</Text>
+              </TouchableOpacity>
+              <Text style={styles.densityValue}>{activeMask.feather}px</Text>
+              <TouchableOpacity style={styles.stepButton} onPress={() => handleFeatherChange(4)}>
+                <Text style={styles.buttonText}>+</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.smallButton, selectedMaskPoint === null && styles.buttonDisabled]}
+                onPress={handleDeleteMaskPoint}
+                disabled={selectedMaskPoint === null}
+              >
+                <Text style={styles.buttonText}>✕ Point</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={[styles.smallButton, styles.resetButton]} onPress={handleDeleteMask}>
+                <Text style={styles.buttonText}>🗑 Mask</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      )}
+
+      {/* Cue List Panel (collapsible) */}
+      {showCueList && videoCues.length > 0 && (
+        <View style={styles.cueListPanel}>
+          <Text style={styles.cueListTitle}>Video Cues ({videoCues.length}) · drag ≡ to reorder</Text>
+          <CueListEditor
+            cues={videoCues}
+            currentCueIndex={currentCueIndex}
+            onSelectCue={onSelectCue}
+            onUpdateCue={onUpdateCue}
+            onMoveCue={onMoveCue}
+            onDuplicateCue={onDuplicateCue}
+            onRemoveCue={onRemoveCue}
+            onToggleCueLoop={onToggleCueLoop}
+          />
+        </View>
+      )}
+
       {/* Control Panel */}
       <View style={styles.controls}>
         {/* Top row: Undo/Redo and Cue toggle */}
@@ -180,6 +1330,145 @@ const CalibrationScreen: React.FC<Props> = ({
             >
               <Text style={styles.buttonText}>Redo ↪</Text>
             </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.smallButton, showHistory && styles.outputChipActive]}
+              onPress={toggleHistoryPanel}
+            >
+              <Text style={styles.buttonText}>🕘 {history.index + 1}/{history.entries.length}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.smallButton, (showGhost || !!ghost) && styles.outputChipActive]}
+              onPress={toggleGhostPanel}
+            >
+              <Text style={styles.buttonText}>👻 Ghost</Text>
+            </TouchableOpacity>
+          </View>
+
+          {/* Mesh density */}
+          <View style={styles.densityGroup}>
+            <Text style={styles.densityLabel}>Rows</Text>
+            <TouchableOpacity
+              style={[styles.stepButton, rows <= MIN_MESH_SIZE && styles.buttonDisabled]}
+              onPress={() => handleDensityChange(rows - 1, cols)}
+              disabled={rows <= MIN_MESH_SIZE}
+            >
+              <Text style={styles.buttonText}>−</Text>
+            </TouchableOpacity>
+            <Text style={styles.densityValue}>{rows}</Text>
+            <TouchableOpacity
+              style={[styles.stepButton, rows >= MAX_MESH_SIZE && styles.buttonDisabled]}
+              onPress={() => handleDensityChange(rows + 1, cols)}
+              disabled={rows >= MAX_MESH_SIZE}
+            >
+              <Text style={styles.buttonText}>+</Text>
+            </TouchableOpacity>
+            <Text style={styles.densityLabel}>Cols</Text>
+            <TouchableOpacity
+              style={[styles.stepButton, cols <= MIN_MESH_SIZE && styles.buttonDisabled]}
+              onPress={() => handleDensityChange(rows, cols - 1)}
+              disabled={cols <= MIN_MESH_SIZE}
+            >
+              <Text style={styles.buttonText}>−</Text>
+            </TouchableOpacity>
+            <Text style={styles.densityValue}>{cols}</Text>
+            <TouchableOpacity
+              style={[styles.stepButton, cols >= MAX_MESH_SIZE && styles.buttonDisabled]}
+              onPress={() => handleDensityChange(rows, cols + 1)}
+              disabled={cols >= MAX_MESH_SIZE}
+            >
+              <Text style={styles.buttonText}>+</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.smallButton} onPress={toggleInterpolation}>
+              <Text style={styles.buttonText}>
+                {calibrationSettings.interpolation === 'spline' ? '〰 Smooth' : '▦ Linear'}
+              </Text>
+            </TouchableOpacity>
+            <Text style={styles.densityLabel}>Subdiv</Text>
+            <TouchableOpacity
+              style={[styles.stepButton, calibrationSettings.subdivisions <= MIN_SUBDIVISIONS && styles.buttonDisabled]}
+              onPress={() => handleSubdivisionsChange(-1)}
+              disabled={calibrationSettings.subdivisions <= MIN_SUBDIVISIONS}
+            >
+              <Text style={styles.buttonText}>−</Text>
+            </TouchableOpacity>
+            <Text style={styles.densityValue}>{calibrationSettings.subdivisions}</Text>
+            <TouchableOpacity
+              style={[styles.stepButton, calibrationSettings.subdivisions >= MAX_SUBDIVISIONS && styles.buttonDisabled]}
+              onPress={() => handleSubdivisionsChange(1)}
+              disabled={calibrationSettings.subdivisions >= MAX_SUBDIVISIONS}
+            >
+              <Text style={styles.buttonText}>+</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.smallButton, softSelection.enabled && styles.softChipActive]}
+              onPress={() => updateSoftSelection({ enabled: !softSelection.enabled })}
+            >
+              <Text style={styles.buttonText}>◌ Soft</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.smallButton, isSnapping(snapSettings) && styles.snapChipActive]}
+              onPress={() => setShowSnap((prev) => !prev)}
+            >
+              <Text style={styles.buttonText}>🧲 Snap</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.smallButton, showRelax && styles.outputChipActive]}
+              onPress={() => setShowRelax((prev) => !prev)}
+            >
+              <Text style={styles.buttonText}>≈ Relax</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.smallButton, calibrationSettings.symmetry !== 'off' && styles.symmetryOn]}
+              onPress={cycleSymmetry}
+            >
+              <Text style={styles.buttonText}>{SYMMETRY_LABELS[calibrationSettings.symmetry]}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.smallButton, editMode === 'corners' && styles.cornerChipActive]}
+              onPress={toggleCornerMode}
+            >
+              <Text style={styles.buttonText}>⬚ Corners</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.smallButton, showProfiles && styles.outputChipActive]}
+              onPress={toggleProfilesPanel}
+            >
+              <Text style={styles.buttonText}>
+                📂 {profiles.find((p) => p.id === activeProfileId)?.name ?? 'Profiles'}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.smallButton, showSurface && styles.outputChipActive]}
+              onPress={toggleSurfacePanel}
+            >
+              <Text style={styles.buttonText}>⌒ Surface</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.smallButton} onPress={() => setShowAutoCalibrate(true)}>
+              <Text style={styles.buttonText}>✨ Auto</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.smallButton, editMode === 'mask' && styles.maskOptionOn]}
+              onPress={toggleMaskMode}
+            >
+              <Text style={styles.buttonText}>◐ Masks</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.smallButton, editMode === 'brightness' && styles.brightnessChipActive]}
+              onPress={() => {
+                setShowOutputs(false);
+                setEditMode(editMode === 'brightness' ? 'mesh' : 'brightness');
+              }}
+            >
+              <Text style={styles.buttonText}>☀ Light</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.smallButton, showOutputs && styles.outputChipActive]}
+              onPress={toggleOutputsPanel}
+            >
+              <Text style={styles.buttonText}>
+                🖥 {outputs.length > 1 ? activeOutput.name : 'Outputs'}
+              </Text>
+            </TouchableOpacity>
           </View>
           
           {videoCues.length > 0 && (
@@ -188,7 +1477,7 @@ const CalibrationScreen: React.FC<Props> = ({
               onPress={() => setShowCueList(!showCueList)}
             >
               <Text style={styles.buttonText}>
-                🎬 Cues ({currentCueIndex + 1}/{videoCues.length})
+                🎬 Cue {formatCueNumber(getCueNumber(videoCues, currentCueIndex))} ({currentCueIndex + 1}/{videoCues.length})
               </Text>
             </TouchableOpacity>
           )}
@@ -215,6 +1504,16 @@ const CalibrationScreen: React.FC<Props> = ({
             </Text>
           </TouchableOpacity>
 
+          {/* Test pattern behind the mesh (when the video is off) */}
+          {!showVideo && (
+            <TouchableOpacity
+              style={[styles.button, styles.toggleButton, showPattern && styles.outputChipActive]}
+              onPress={() => setShowPattern((prev) => !prev)}
+            >
+              <Text style={styles.buttonText}>▦ Pattern</Text>
+            </TouchableOpacity>
+          )}
+
           {/* Reset */}
           <TouchableOpacity
             style={[styles.button, styles.resetButton]}
@@ -243,12 +1542,28 @@ const CalibrationScreen: React.FC<Props> = ({
 
         {/* Instructions */}
         <Text style={styles.instructions}>
-          {videoCues.length === 0
+          {editMode === 'corners'
+            ? 'Drag the yellow corners for coarse perspective • Bake to refine with the mesh'
+            : editMode === 'mask'
+            ? 'Drag pink points to shape the mask • Tap an edge to add a point'
+            : editMode === 'brightness'
+            ? 'Dims over-lit areas to even out brightness • Painted mode: drag to paint'
+            : videoCues.length === 0
             ? 'Add a video to get started'
-            : 'Drag cyan points to warp • Long-press cue for options'
+            : 'Drag cyan points to warp • Drag empty space to select several • Arrows / D-pad nudge'
           }
         </Text>
       </View>
+
+      {/* Structured-light auto-calibration, covers the whole output */}
+      {showAutoCalibrate && (
+        <StructuredLightCapture
+          rows={rows}
+          cols={cols}
+          onApply={handleAutoCalibrate}
+          onClose={() => setShowAutoCalibrate(false)}
+        />
+      )}
     </SafeAreaView>
   );
 };
@@ -276,33 +1591,99 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginBottom: 8,
   },
-  cueItem: {
+  // Mask panel
+  maskPanel: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.85)',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  maskChip: {
     backgroundColor: '#333',
-    borderRadius: 8,
-    padding: 8,
+    borderRadius: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
     marginRight: 8,
-    minWidth: 80,
+  },
+  maskChipActive: {
+    backgroundColor: '#662255',
+    borderWidth: 1,
+    borderColor: '#ff44cc',
+  },
+  maskActions: {
+    flexDirection: 'row',
     alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
   },
-  cueItemActive: {
-    backgroundColor: '#0066cc',
-    borderWidth: 2,
-    borderColor: '#00aaff',
+  wrapRow: {
+    flexWrap: 'wrap',
   },
-  cueNumber: {
-    color: 'white',
-    fontSize: 18,
-    fontWeight: 'bold',
+  profileCard: {
+    backgroundColor: '#333',
+    borderRadius: 6,
+    padding: 6,
+    marginRight: 8,
+    width: 110,
+    alignItems: 'center',
+    gap: 2,
   },
-  cueName: {
-    color: 'rgba(255, 255, 255, 0.7)',
+  profileDate: {
+    color: '#999',
     fontSize: 10,
-    marginTop: 2,
-    maxWidth: 70,
   },
-  cueLoop: {
-    fontSize: 10,
-    marginTop: 2,
+  importReport: {
+    backgroundColor: '#224433',
+    borderRadius: 6,
+    padding: 8,
+    marginTop: 8,
+    gap: 2,
+  },
+  importReportFailed: {
+    backgroundColor: '#552222',
+  },
+  importReportList: {
+    maxHeight: 120,
+  },
+  importMessage: {
+    color: '#ddd',
+    fontSize: 11,
+  },
+  historyChipUndone: {
+    opacity: 0.5,
+  },
+  profileInput: {
+    backgroundColor: '#222',
+    color: 'white',
+    borderRadius: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    minWidth: 120,
+    fontSize: 12,
+  },
+  maskOptionOn: {
+    backgroundColor: '#662255',
+  },
+  brightnessChipActive: {
+    backgroundColor: '#665500',
+  },
+  outputChipActive: {
+    backgroundColor: '#005577',
+  },
+  cornerChipActive: {
+    backgroundColor: '#776600',
+  },
+  symmetryOn: {
+    backgroundColor: '#662266',
+  },
+  softChipActive: {
+    backgroundColor: '#884400',
+  },
+  snapChipActive: {
+    backgroundColor: '#226633',
   },
   // Controls
   controls: {
@@ -330,6 +1711,29 @@ const styles = StyleSheet.create({
     borderRadius: 6,
     backgroundColor: '#333',
   },
+  densityGroup: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  densityLabel: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 11,
+    marginLeft: 4,
+  },
+  densityValue: {
+    color: 'white',
+    fontSize: 13,
+    fontWeight: '600',
+    minWidth: 18,
+    textAlign: 'center',
+  },
+  stepButton: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 6,
+    backgroundColor: '#333',
+  },
   cueToggle: {
     backgroundColor: '#444',
   },
@@ -1,21 +1,33 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import {
   View,
   StyleSheet,
   TouchableOpacity,
   Text,
   SafeAreaView,
+  Platform,
 } from 'react-native';
 import WarpedVideoPlayer from '../components/WarpedVideoPlayer';
 import HiddenKeyCapture from '../components/HiddenKeyCapture';
 import { VideoCue } from '../types/video';
+import { CalibrationSettings, ContentRegion, EdgeBlend } from '../types';
+import { getBrightnessGains } from '../utils/brightness';
+import { applyCornerPin } from '../utils/homography';
+import { OutputSyncMessage, createOutputSync } from '../utils/outputWindows';
+import { formatCueNumber, getCueNumber, getCuePlayback } from '../utils/cues';
 
 type MeshPoint = { id: string; x: number; y: number };
 type Mesh = MeshPoint[];
 
 type Props = {
   mesh: Mesh;
-  onGoToCalibration: () => void;
+  calibrationSettings: CalibrationSettings;
+  region?: ContentRegion;
+  edgeBlend?: EdgeBlend | null;
+  outputName?: string;
+  profileName?: string; // active calibration profile
+  isOutputWindow?: boolean; // projector window driven by the control window
+  onGoToCalibration?: () => void;
   videoUri: string | null;
   // Cue management
   videoCues: VideoCue[];
@@ -52,6 +64,12 @@ const PREV_CUE_KEYS = ['ArrowLeft', 'p', 'P'];
  */
 const PlaybackScreen: React.FC<Props> = ({
   mesh,
+  calibrationSettings,
+  region,
+  edgeBlend,
+  outputName,
+  profileName,
+  isOutputWindow = false,
   onGoToCalibration,
   videoUri,
   videoCues,
@@ -68,11 +86,88 @@ const PlaybackScreen: React.FC<Props> = ({
 
   const currentCue = videoCues[currentCueIndex];
 
+  // Mesh with the perspective pre-warp applied
+  const warpedMesh = useMemo(
+    () => applyCornerPin(mesh, calibrationSettings.cornerPin),
+    [mesh, calibrationSettings.cornerPin]
+  );
+
+  const brightnessGains = useMemo(
+    () => getBrightnessGains(calibrationSettings.brightness, warpedMesh, calibrationSettings.interpolation),
+    [calibrationSettings, warpedMesh]
+  );
+
+  // Keep playback in step across projector output windows. Remote messages
+  // are applied locally without being re-broadcast.
+  const syncRef = useRef<ReturnType<typeof createOutputSync> | null>(null);
+  const remoteCueIdRef = useRef<string | null>(null);
+  const remoteRef = useRef({ onSelectCue, videoCues, currentCueIndex });
+  remoteRef.current = { onSelectCue, videoCues, currentCueIndex };
+
+  // Cues are followed by id: the list may have been reordered since
+  const followRemoteCue = useCallback(() => {
+    const { onSelectCue, videoCues, currentCueIndex } = remoteRef.current;
+    const index = videoCues.findIndex((c) => c.id === remoteCueIdRef.current);
+    if (index >= 0 && index !== currentCueIndex) onSelectCue(index);
+  }, []);
+
+  useEffect(() => {
+    const sync = createOutputSync((message: OutputSyncMessage) => {
+      switch (message.type) {
+        case 'play':
+          setPlaying(true);
+          setArmed(false);
+          setShowControls(false);
+          break;
+        case 'blackout':
+          setBlackout(message.value);
+          if (message.value) {
+            setPlaying(false);
+            setArmed(true);
+          }
+          break;
+        case 'cue':
+          remoteCueIdRef.current = message.id;
+          followRemoteCue();
+          break;
+      }
+    });
+    syncRef.current = sync;
+    return () => sync.close();
+  }, [followRemoteCue]);
+
+  // A reloaded cue list can arrive after the cue message
+  useEffect(() => {
+    if (isOutputWindow) followRemoteCue();
+  }, [videoCues, isOutputWindow, followRemoteCue]);
+
+  const broadcast = useCallback((message: OutputSyncMessage) => {
+    syncRef.current?.post(message);
+  }, []);
+
+  // Output windows only follow; the control window drives cue changes
+  const currentCueId = currentCue?.id;
+  useEffect(() => {
+    if (!isOutputWindow && currentCueId) broadcast({ type: 'cue', id: currentCueId });
+  }, [currentCueId, isOutputWindow, broadcast]);
+
+  const startPlayback = useCallback(() => {
+    setPlaying(true);
+    setArmed(false);
+    setShowControls(false);
+    broadcast({ type: 'play' });
+  }, [broadcast]);
+
+  const setBlackoutSynced = useCallback((value: boolean) => {
+    setBlackout(value);
+    broadcast({ type: 'blackout', value });
+  }, [broadcast]);
+
   const handleKeyPress = useCallback(
     (key: string) => {
       // Blackout toggle with Escape
       if (key === 'Escape') {
-        setBlackout(prev => !prev);
+        setBlackoutSynced(!blackout);
         if (playing) {
           setPlaying(false);
           setArmed(true);
@@ -97,30 +192,29 @@ const PlaybackScreen: React.FC<Props> = ({
       // Check if the key matches any trigger
       if (TRIGGER_KEYS.includes(key)) {
         console.log(`🪄 Wand triggered! Key: ${key}`);
-        setPlaying(true);
-        setArmed(false);
-        setShowControls(false);
+        startPlayback();
       }
     },
-    [armed, blackout, playing, onNextCue, onPrevCue]
+    [armed, blackout, playing, onNextCue, onPrevCue, startPlayback, setBlackoutSynced]
   );
 
   const handlePlaybackFinished = useCallback(() => {
     console.log('📼 Playback finished');
     setPlaying(false);
     setArmed(true);
+
+    // Output windows take cue changes from the control window
+    if (isOutputWindow) return;
     
     // Auto-advance to next cue if not looping
     if (!currentCueLoop && currentCueIndex < videoCues.length - 1) {
       onNextCue();
     }
-  }, [currentCueLoop, currentCueIndex, videoCues.length, onNextCue]);
+  }, [currentCueLoop, currentCueIndex, videoCues.length, onNextCue, isOutputWindow]);
 
   const handleManualTrigger = () => {
     if (!armed || blackout) return;
-    setPlaying(true);
-    setArmed(false);
-    setShowControls(false);
+    startPlayback();
   };
 
   const handleScreenTap = () => {
@@ -137,7 +231,7 @@ const PlaybackScreen: React.FC<Props> = ({
   };
 
   const handleBlackout = () => {
-    setBlackout(true);
+    setBlackoutSynced(true);
     if (playing) {
       setPlaying(false);
       setArmed(true);
@@ -145,7 +239,15 @@ const PlaybackScreen: React.FC<Props> = ({
   };
 
   const handleUnblackout = () => {
-    setBlackout(false);
+    setBlackoutSynced(false);
+  };
+
+  // Web: projector windows need the browser chrome out of the way
+  const handleFullscreen = () => {
+    if (Platform.OS !== 'web') return;
+    document.documentElement.requestFullscreen?.().catch((e) =>
+      console.warn('Fullscreen unavailable', e)
+    );
   };
 
   return (
@@ -172,9 +274,16 @@ const PlaybackScreen: React.FC<Props> = ({
             onPress={handleScreenTap}
           >
             <WarpedVideoPlayer
-              mesh={mesh}
+              mesh={warpedMesh}
+              interpolation={calibrationSettings.interpolation}
+              subdivisions={calibrationSettings.subdivisions}
+              masks={calibrationSettings.masks}
+              brightnessGains={brightnessGains}
+              region={region}
+              edgeBlend={edgeBlend}
               playing={playing && !blackout}
               onPlaybackFinished={handlePlaybackFinished}
+              playback={getCuePlayback(currentCue)}
               videoSource={videoUri ? { uri: videoUri } : undefined}
             />
           </TouchableOpacity>
@@ -202,13 +311,15 @@ const PlaybackScreen: React.FC<Props> = ({
                   <Text style={styles.statusText}>
                     {armed ? 'Ready' : 'Playing...'}
                   </Text>
+                  {outputName && <Text style={styles.outputName}>{outputName}</Text>}
+                  {profileName && <Text style={styles.profileName}>📂 {profileName}</Text>}
                 </View>
 
                 {/* Current cue indicator */}
                 {currentCue && (
                   <View style={styles.cueIndicator}>
                     <Text style={styles.cueNumber}>
-                      Cue {currentCueIndex + 1}/{videoCues.length}
+                      Cue {formatCueNumber(getCueNumber(videoCues, currentCueIndex))} · {currentCueIndex + 1}/{videoCues.length}
                     </Text>
                     <Text style={styles.cueName} numberOfLines={1}>
                       {currentCue.name}
@@ -271,13 +382,24 @@ const PlaybackScreen: React.FC<Props> = ({
                     <Text style={styles.buttonText}>👆 Arm Tap</Text>
                   </TouchableOpacity>
 
-                  {/* Back to calibration */}
-                  <TouchableOpacity
-                    style={[styles.button, styles.calibrateButton]}
-                    onPress={onGoToCalibration}
-                  >
-                    <Text style={styles.buttonText}>⚙️ Setup</Text>
-                  </TouchableOpacity>
+                  {Platform.OS === 'web' && (
+                    <TouchableOpacity
+                      style={[styles.button, styles.calibrateButton]}
+                      onPress={handleFullscreen}
+                    >
+                      <Text style={styles.buttonText}>⛶ Fullscreen</Text>
+                    </TouchableOpacity>
+                  )}
+
+                  {/* Back to calibration (not from projector windows) */}
+                  {!isOutputWindow && onGoToCalibration && (
+                    <TouchableOpacity
+                      style={[styles.button, styles.calibrateButton]}
+                      onPress={onGoToCalibration}
+                    >
+                      <Text style={styles.buttonText}>⚙️ Setup</Text>
+                    </TouchableOpacity>
+                  )}
                 </View>
 
                 {/* Help text */}
@@ -345,6 +467,17 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '500',
   },
+  outputName: {
+    color: '#00aaff',
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 10,
+  },
+  profileName: {
+    color: '#cccccc',
+    fontSize: 14,
+    marginLeft: 10,
+  },
   // Cue indicator
   cueIndicator: {
     backgroundColor: 'rgba(0, 0, 0, 0.6)',
@@ -2,6 +2,14 @@ export type MeshPoint = {
   id: string;
   x: number; // normalized 0-1
   y: number; // normalized 0-1
+  // Source position the point samples, when rows/columns aren't evenly
+  // spaced (after a local insert). Defaults to the uniform grid position.
+  u?: number;
+  v?: number;
+  // How many inserts deep the point's column (u) / row (v) is; unset on
+  // the original grid lines. Spline slopes are built by depth, see meshGrid.
+  uDepth?: number;
+  vDepth?: number;
 };
 
 export type Mesh = MeshPoint[];
@@ -10,3 +18,164 @@ export type Size = {
   width: number;
   height: number;
 };
+
+// How positions between control points are interpolated
+export type InterpolationMode = 'bilinear' | 'spline';
+
+// Output-space polygon that hides projector spill (normalized 0-1)
+export type Mask = {
+  id: string;
+  name: string;
+  points: { x: number; y: number }[];
+  smooth: boolean;   // draw as a closed bezier curve through the points
+  inverted: boolean; // black out the inside instead of the outside
+  feather: number;   // edge softness in output pixels
+};
+
+// Where the brightness compensation gains come from
+export type BrightnessMode = 'off' | 'geometry' | 'painted';
+
+export type BrightnessSettings = {
+  mode: BrightnessMode;
+  strength: number;  // 0-1, how much of the gain map is applied
+  painted: number[]; // output-space gain grid (0-1), row-major
+};
+
+// Where the corners of the mesh land in output space: TL, TR, BR, BL (0-1)
+export type CornerPin = { x: number; y: number }[];
+
+// Mirrored editing: which counterparts follow a dragged point
+export type SymmetryMode = 'off' | 'horizontal' | 'vertical' | 'quad' | 'radial';
+
+// Per-calibration settings, saved alongside the mesh
+export type CalibrationSettings = {
+  interpolation: InterpolationMode;
+  masks: Mask[];
+  brightness: BrightnessSettings;
+  cornerPin: CornerPin; // perspective pre-warp applied before the mesh
+  symmetry: SymmetryMode;
+  subdivisions: number; // sub-quads per cell edge, same in preview and playback
+};
+
+export type Calibration = CalibrationSettings & {
+  mesh: Mesh;
+};
+
+// Sub-rectangle of the source video an output shows (normalized 0-1)
+export type ContentRegion = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+// Blend ramp widths at each edge of an output, as fractions of its region
+export type EdgeBlend = {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+  gamma: number; // projector gamma, so overlapping light adds up linearly
+};
+
+// One projector: its own calibration plus the part of the content it shows
+export type ProjectorOutput = Calibration & {
+  id: string;
+  name: string;
+  region: ContentRegion;
+  blendGamma: number;
+};
+
+// Named snapshot of every output's calibration (one per venue / rig)
+export type CalibrationProfile = {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  outputs: ProjectorOutput[];
+};
+
+// Corner pin swap made by the same action as a history entry (e.g. baking it)
+export type CornerPinChange = { before: CornerPin; after: CornerPin };
+
+// One undo step: the mesh after a labelled action ("Move 2-3")
+export type HistoryEntry = {
+  label: string;
+  mesh: Mesh;
+  time: number; // ms since epoch
+  cornerPin?: CornerPinChange;
+};
+
+export type MeshHistory = {
+  entries: HistoryEntry[]; // oldest first
+  index: number;           // entry currently shown
+};
+
+// Reference mesh drawn under the working one (onion skin)
+export type GhostSource =
+  | { kind: 'saved' }                       // last save of the active output
+  | { kind: 'profile'; profileId: string }
+  | { kind: 'history'; index: number };
+
+// Step size used when nudging mesh points with keys or the D-pad
+export type NudgeStep = 'coarse' | 'fine' | 'subpixel';
+
+// Proportional editing: neighbours follow a dragged point
+export type FalloffCurve = 'linear' | 'smooth' | 'sharp';
+
+export type SoftSelection = {
+  enabled: boolean;
+  radius: number; // normalized to output width
+  curve: FalloffCurve;
+};
+
+// Mesh smoothing: Laplacian evens out spacing, bending also straightens lines
+export type RelaxMethod = 'laplacian' | 'bending';
+
+export type RelaxSettings = {
+  method: RelaxMethod;
+  strength: number;      // 0-1, fraction of the way to the smoothed position per pass
+  iterations: number;
+  keepBoundary: boolean; // edge points stay put (corners always do)
+};
+
+// Where a dragged point snaps to
+export type SnapSettings = {
+  toOriginal: boolean;   // the point's undistorted grid position
+  toNeighbours: boolean; // x / y lines of the adjacent points
+  toPixelGrid: boolean;
+  pixelGridSize: number; // px
+};
+
+export type SurfaceType = 'sphere' | 'cylinder' | 'parabolic';
+
+// Physical setup used to seed the mesh (any consistent unit, e.g. metres)
+export type SurfacePreset = {
+  type: SurfaceType;
+  width: number;      // across the opening
+  height: number;
+  depth: number;      // from the rim to the deepest point
+  distance: number;   // projector lens to the rim plane
+  offsetX: number;    // projector position relative to the surface centre
+  offsetY: number;    // (positive = right / down)
+  throwRatio: number; // throw distance / image width
+};
+
+export type TestPatternType =
+  | 'checkerboard'
+  | 'grid'
+  | 'crosshairs'
+  | 'colorBars'
+  | 'grayRamp'
+  | 'white';
+
+// Procedural background for the calibration editor, drawn through the warp
+export type TestPattern = {
+  type: TestPatternType;
+  cellsPerMeshCell: number; // pattern cells along each mesh cell edge
+  foreground: string;       // CSS color
+  background: string;
+};
+
+// What touches in the calibration editor act on
+export type EditorMode = 'mesh' | 'corners' | 'mask' | 'brightness';
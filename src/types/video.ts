@@ -9,11 +9,27 @@ export interface VideoCue {
   name: string;
   uri: string;
   loop: boolean;
+  number?: number; // cue number called by the operator (1, 1.5, 2)
+  notes?: string;
+  playback?: CuePlayback; // defaults when unset, see utils/cues
   duration?: number; // in seconds, if known
   thumbnail?: string;
   createdAt: number;
 }
 
+// How a cue plays; times in seconds of the video file unless noted
+export interface CuePlayback {
+  inPoint: number;
+  outPoint: number | null; // null = end of the file
+  rate: number;            // 1 = normal speed
+  volume: number;          // 0-1
+  fadeIn: number;          // seconds of wall time
+  fadeOut: number;         // seconds of wall time, ending at the out-point
+}
+
+// What the cue editor can change
+export type CueChanges = Partial<Pick<VideoCue, 'name' | 'number' | 'notes' | 'playback'>>;
+
 export interface VideoPlaylist {
   cues: VideoCue[];
   currentCueIndex: number;
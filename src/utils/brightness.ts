@@ -0,0 +1,129 @@
+import { BrightnessSettings, InterpolationMode, Mesh } from '../types';
+import { triangulateMesh } from './meshGrid';
+
+// Resolution of the output-space gain grid (16:9, smoothed when drawn)
+export const BRIGHTNESS_MAP_COLS = 32;
+export const BRIGHTNESS_MAP_ROWS = 18;
+
+// Triangulation used to estimate cell stretch; coarse is plenty
+const GEOMETRY_SUBDIVISIONS = 2;
+
+export const createBrightnessMap = (): number[] =>
+  new Array(BRIGHTNESS_MAP_COLS * BRIGHTNESS_MAP_ROWS).fill(1);
+
+export const DEFAULT_BRIGHTNESS_SETTINGS: BrightnessSettings = {
+  mode: 'off',
+  strength: 0.5,
+  painted: createBrightnessMap(),
+};
+
+/**
+ * Gain map derived from mesh geometry.
+ *
+ * Each triangle's output area is compared with its area in the undistorted
+ * grid. Where content is stretched over more projector pixels it is dimmed
+ * to match the most compressed (and usually darkest, most oblique) region.
+ */
+export const computeGeometryGainMap = (mesh: Mesh, interpolation: InterpolationMode): number[] => {
+  const { positions: p, texCoords: t, vertexCount } = triangulateMesh(
+    mesh,
+    GEOMETRY_SUBDIVISIONS,
+    interpolation
+  );
+  const triangleCount = vertexCount / 3;
+
+  const ratios = new Float32Array(triangleCount);
+  let minRatio = Infinity;
+  for (let tri = 0; tri < triangleCount; tri++) {
+    const i = tri * 6;
+    const outputArea = Math.abs(
+      (p[i + 2] - p[i]) * (p[i + 5] - p[i + 1]) - (p[i + 4] - p[i]) * (p[i + 3] - p[i + 1])
+    );
+    const sourceArea = Math.abs(
+      (t[i + 2] - t[i]) * (t[i + 5] - t[i + 1]) - (t[i + 4] - t[i]) * (t[i + 3] - t[i + 1])
+    );
+    const ratio = sourceArea > 0 ? outputArea / sourceArea : 0;
+    ratios[tri] = ratio;
+    if (ratio > 0 && ratio < minRatio) minRatio = ratio;
+  }
+
+  // Sample the triangle under each gain cell centre (outside the mesh: no change)
+  const gains = createBrightnessMap();
+  if (!isFinite(minRatio)) return gains;
+
+  for (let row = 0; row < BRIGHTNESS_MAP_ROWS; row++) {
+    const y = (row + 0.5) / BRIGHTNESS_MAP_ROWS;
+    for (let col = 0; col < BRIGHTNESS_MAP_COLS; col++) {
+      const x = (col + 0.5) / BRIGHTNESS_MAP_COLS;
+
+      for (let tri = 0; tri < triangleCount; tri++) {
+        const i = tri * 6;
+        if (!pointInTriangle(x, y, p[i], p[i + 1], p[i + 2], p[i + 3], p[i + 4], p[i + 5])) continue;
+        if (ratios[tri] > 0) {
+          gains[row * BRIGHTNESS_MAP_COLS + col] = Math.min(1, minRatio / ratios[tri]);
+        }
+        break;
+      }
+    }
+  }
+  return gains;
+};
+
+const pointInTriangle = (
+  x: number, y: number,
+  x0: number, y0: number, x1: number, y1: number, x2: number, y2: number
+): boolean => {
+  const d0 = (x - x1) * (y0 - y1) - (x0 - x1) * (y - y1);
+  const d1 = (x - x2) * (y1 - y2) - (x1 - x2) * (y - y2);
+  const d2 = (x - x0) * (y2 - y0) - (x2 - x0) * (y - y0);
+  const hasNeg = d0 < 0 || d1 < 0 || d2 < 0;
+  const hasPos = d0 > 0 || d1 > 0 || d2 > 0;
+  return !(hasNeg && hasPos);
+};
+
+/**
+ * Paint into a gain map with a soft round brush.
+ * `x`, `y` and `radius` are normalized to the output width; `amount` is
+ * added at the brush centre (negative darkens) and fades to 0 at the edge.
+ */
+export const paintBrightnessMap = (
+  map: number[],
+  x: number,
+  y: number,
+  radius: number,
+  amount: number,
+  aspect: number = 16 / 9
+): number[] => {
+  const next = map.slice();
+  for (let row = 0; row < BRIGHTNESS_MAP_ROWS; row++) {
+    const cy = (row + 0.5) / BRIGHTNESS_MAP_ROWS;
+    for (let col = 0; col < BRIGHTNESS_MAP_COLS; col++) {
+      const cx = (col + 0.5) / BRIGHTNESS_MAP_COLS;
+      // Measure in width units so the brush stays round
+      const dist = Math.hypot(cx - x, (cy - y) / aspect);
+      if (dist >= radius) continue;
+
+      const falloff = 1 - (dist / radius) ** 2;
+      const index = row * BRIGHTNESS_MAP_COLS + col;
+      next[index] = Math.max(0, Math.min(1, next[index] + amount * falloff));
+    }
+  }
+  return next;
+};
+
+/**
+ * Final gains for the renderer, with strength applied, or null when
+ * compensation is off.
+ */
+export const getBrightnessGains = (
+  settings: BrightnessSettings,
+  mesh: Mesh,
+  interpolation: InterpolationMode
+): number[] | null => {
+  if (settings.mode === 'off' || settings.strength <= 0) return null;
+
+  const gains = settings.mode === 'geometry'
+    ? computeGeometryGainMap(mesh, interpolation)
+    : settings.painted;
+  return gains.map((g) => 1 - settings.strength * (1 - g));
+};
@@ -0,0 +1,112 @@
+import {
+  BrightnessMode,
+  BrightnessSettings,
+  Calibration,
+  CalibrationSettings,
+  CornerPin,
+  InterpolationMode,
+  Mask,
+  Mesh,
+  SymmetryMode,
+} from '../types';
+import {
+  BRIGHTNESS_MAP_COLS,
+  BRIGHTNESS_MAP_ROWS,
+  DEFAULT_BRIGHTNESS_SETTINGS,
+  createBrightnessMap,
+} from './brightness';
+import { IDENTITY_CORNER_PIN, isValidCornerPin } from './homography';
+import {
+  DEFAULT_MESH_COLS,
+  DEFAULT_MESH_ROWS,
+  DEFAULT_SUBDIVISIONS,
+  MAX_SUBDIVISIONS,
+  MIN_SUBDIVISIONS,
+  buildDefaultMesh,
+} from './meshGrid';
+
+export const DEFAULT_CALIBRATION_SETTINGS: CalibrationSettings = {
+  interpolation: 'bilinear',
+  masks: [],
+  brightness: DEFAULT_BRIGHTNESS_SETTINGS,
+  cornerPin: IDENTITY_CORNER_PIN,
+  symmetry: 'off',
+  subdivisions: DEFAULT_SUBDIVISIONS,
+};
+
+const INTERPOLATIONS: InterpolationMode[] = ['bilinear', 'spline'];
+const BRIGHTNESS_MODES: BrightnessMode[] = ['off', 'geometry', 'painted'];
+const SYMMETRY_MODES: SymmetryMode[] = ['off', 'horizontal', 'vertical', 'quad', 'radial'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isOneOf = <T extends string>(options: T[], value: unknown): value is T =>
+  options.some((option) => option === value);
+
+const isPoint = (value: unknown): value is { x: number; y: number } =>
+  isObject(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y);
+
+// Shape only; the show file parser checks masks in depth
+const isMask = (value: unknown): value is Mask =>
+  isObject(value) && typeof value.id === 'string' && Array.isArray(value.points);
+
+const normalizeBrightness = (stored: unknown): BrightnessSettings => {
+  if (!isObject(stored)) return DEFAULT_BRIGHTNESS_SETTINGS;
+  const { mode, strength, painted } = stored;
+  return {
+    mode: isOneOf(BRIGHTNESS_MODES, mode) ? mode : DEFAULT_BRIGHTNESS_SETTINGS.mode,
+    strength: isFiniteNumber(strength) ? strength : DEFAULT_BRIGHTNESS_SETTINGS.strength,
+    // A painted map saved at another resolution can't be reused
+    painted:
+      Array.isArray(painted) &&
+      painted.length === BRIGHTNESS_MAP_COLS * BRIGHTNESS_MAP_ROWS &&
+      painted.every(isFiniteNumber)
+        ? painted
+        : createBrightnessMap(),
+  };
+};
+
+const normalizeCornerPin = (stored: unknown): CornerPin =>
+  Array.isArray(stored) && stored.every(isPoint) && isValidCornerPin(stored)
+    ? stored
+    : IDENTITY_CORNER_PIN;
+
+const normalizeSubdivisions = (stored: unknown): number =>
+  isFiniteNumber(stored)
+    ? Math.max(MIN_SUBDIVISIONS, Math.min(MAX_SUBDIVISIONS, Math.round(stored)))
+    : DEFAULT_SUBDIVISIONS;
+
+/**
+ * Fill in settings missing from a stored calibration object.
+ * Older saves stored the bare mesh array; those get default settings.
+ */
+export const normalizeCalibration = (parsed: unknown): Calibration => {
+  if (Array.isArray(parsed)) {
+    return { ...DEFAULT_CALIBRATION_SETTINGS, mesh: parsed as Mesh };
+  }
+  const stored = isObject(parsed) ? parsed : {};
+  return {
+    mesh: Array.isArray(stored.mesh)
+      ? (stored.mesh as Mesh)
+      : buildDefaultMesh(DEFAULT_MESH_ROWS, DEFAULT_MESH_COLS),
+    interpolation: isOneOf(INTERPOLATIONS, stored.interpolation)
+      ? stored.interpolation
+      : DEFAULT_CALIBRATION_SETTINGS.interpolation,
+    masks: Array.isArray(stored.masks) ? stored.masks.filter(isMask) : [],
+    brightness: normalizeBrightness(stored.brightness),
+    cornerPin: normalizeCornerPin(stored.cornerPin),
+    symmetry: isOneOf(SYMMETRY_MODES, stored.symmetry)
+      ? stored.symmetry
+      : DEFAULT_CALIBRATION_SETTINGS.symmetry,
+    subdivisions: normalizeSubdivisions(stored.subdivisions),
+  };
+};
+
+// Parse a calibration saved under MESH_KEY
+export const parseStoredCalibration = (json: string): Calibration =>
+  normalizeCalibration(JSON.parse(json));
+
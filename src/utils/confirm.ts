@@ -0,0 +1,22 @@
+import { Alert, Platform } from 'react-native';
+
+/**
+ * Ask before a destructive action. Alert.alert is a no-op on
+ * react-native-web, so the web build asks through the browser instead.
+ */
+export const confirmAction = (
+  title: string,
+  message: string,
+  confirmText: string,
+  onConfirm: () => void,
+  cancelText = 'Cancel'
+) => {
+  if (Platform.OS === 'web') {
+    if (window.confirm(`${title}\n\n${message}`)) onConfirm();
+    return;
+  }
+  Alert.alert(title, message, [
+    { text: cancelText, style: 'cancel' },
+    { text: confirmText, style: 'destructive', onPress: onConfirm },
+  ]);
+};
@@ -0,0 +1,124 @@
+import { CuePlayback, VideoCue } from '../types/video';
+
+// Cue numbers are kept to this many decimals (1.25 between 1.2 and 1.3)
+const MAX_CUE_DECIMALS = 3;
+
+const roundTo = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+export const formatCueNumber = (number: number) => `${roundTo(number, MAX_CUE_DECIMALS)}`;
+
+// Positive number with at most MAX_CUE_DECIMALS decimals, else null
+export const parseCueNumber = (text: string): number | null => {
+  const value = Number(text.trim());
+  if (!text.trim() || !Number.isFinite(value) || value <= 0) return null;
+  return roundTo(value, MAX_CUE_DECIMALS) === value ? value : null;
+};
+
+/**
+ * Shortest number strictly between two cue numbers: 2 after 1 (when last),
+ * 1.5 between 1 and 2, 1.55 between 1.5 and 1.6. Falls back to the midpoint
+ * when the gap is too small to split.
+ */
+export const numberBetween = (prev?: number, next?: number): number => {
+  const low = prev ?? 0;
+  if (next === undefined) return Math.floor(low) + 1;
+  for (let decimals = 0; decimals <= MAX_CUE_DECIMALS; decimals++) {
+    const candidate = roundTo((low + next) / 2, decimals);
+    if (candidate > low && candidate < next) return candidate;
+  }
+  return (low + next) / 2;
+};
+
+// Give numbers to cues saved before cue numbers existed
+export const numberCues = (cues: VideoCue[]): VideoCue[] => {
+  let last = 0;
+  return cues.map((cue) => {
+    const number = cue.number ?? Math.floor(last) + 1;
+    last = number;
+    return cue.number === number ? cue : { ...cue, number };
+  });
+};
+
+export const getCueNumber = (cues: VideoCue[], index: number) => cues[index]?.number ?? index + 1;
+
+// Stable sort, so cues sharing a number keep their order
+export const sortCuesByNumber = (cues: VideoCue[]): VideoCue[] =>
+  cues
+    .map((cue, index) => ({ cue, index }))
+    .sort((a, b) => getCueNumber(cues, a.index) - getCueNumber(cues, b.index) || a.index - b.index)
+    .map(({ cue }) => cue);
+
+/**
+ * Move a cue to a new position. It is renumbered to fit between its new
+ * neighbours, so numbers keep running in list order.
+ */
+export const moveCue = (cues: VideoCue[], from: number, to: number): VideoCue[] => {
+  const target = Math.max(0, Math.min(cues.length - 1, to));
+  if (from === target || !cues[from]) return cues;
+
+  const rest = cues.filter((_, i) => i !== from);
+  const number = numberBetween(rest[target - 1]?.number, rest[target]?.number);
+  return [...rest.slice(0, target), { ...cues[from], number }, ...rest.slice(target)];
+};
+
+// Copy of a cue, placed (and numbered) right after it
+export const duplicateCue = (cues: VideoCue[], id: string): VideoCue[] => {
+  const index = cues.findIndex((c) => c.id === id);
+  if (index < 0) return cues;
+  const source = cues[index];
+  const now = Date.now();
+  const copy: VideoCue = {
+    ...source,
+    id: `cue-${now}-${Math.random().toString(36).substr(2, 9)}`,
+    name: `${source.name} copy`,
+    number: numberBetween(source.number, cues[index + 1]?.number),
+    createdAt: now,
+  };
+  return [...cues.slice(0, index + 1), copy, ...cues.slice(index + 1)];
+};
+
+export const MIN_CUE_RATE = 0.25;
+export const MAX_CUE_RATE = 4;
+export const MAX_CUE_FADE = 10; // seconds
+
+// What a cue without its own settings does (matches the old fixed fades)
+export const DEFAULT_CUE_PLAYBACK: CuePlayback = {
+  inPoint: 0,
+  outPoint: null,
+  rate: 1,
+  volume: 1,
+  fadeIn: 0.5,
+  fadeOut: 0.3,
+};
+
+// Keep every field in range; an out-point at or before the in-point means "end of file"
+export const clampCuePlayback = (playback: CuePlayback): CuePlayback => {
+  const inPoint = Math.max(0, playback.inPoint);
+  return {
+    inPoint,
+    outPoint: playback.outPoint !== null && playback.outPoint > inPoint ? playback.outPoint : null,
+    rate: Math.max(MIN_CUE_RATE, Math.min(MAX_CUE_RATE, playback.rate)),
+    volume: Math.max(0, Math.min(1, playback.volume)),
+    fadeIn: Math.max(0, Math.min(MAX_CUE_FADE, playback.fadeIn)),
+    fadeOut: Math.max(0, Math.min(MAX_CUE_FADE, playback.fadeOut)),
+  };
+};
+
+export const getCuePlayback = (cue?: VideoCue): CuePlayback =>
+  cue?.playback ? clampCuePlayback(cue.playback) : DEFAULT_CUE_PLAYBACK;
+
+// Seconds of wall time until the out-point (or the file's end)
+export const getTimeToOutPoint = (playback: CuePlayback, position: number, duration: number) => {
+  const end = playback.outPoint !== null ? Math.min(playback.outPoint, duration) : duration;
+  return (end - position) / playback.rate;
+};
+
+// Time field text: "12.5" → 12.5, blank → null, anything else → undefined
+export const parseCueTime = (text: string): number | null | undefined => {
+  if (!text.trim()) return null;
+  const value = Number(text.trim());
+  return Number.isFinite(value) && value >= 0 ? value : undefined;
+};
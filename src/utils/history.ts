@@ -0,0 +1,109 @@
+import { CornerPin, CornerPinChange, HistoryEntry, Mesh, MeshHistory } from '../types';
+import { isValidCornerPin } from './homography';
+
+export const MAX_HISTORY = 50;
+// Repeats of the same action this close together merge into one entry
+export const COALESCE_MS = 1000;
+
+export const INITIAL_HISTORY_LABEL = 'Open';
+
+// History is stored per profile (null = no profile loaded)
+export const getHistoryKey = (profileId: string | null) =>
+  `concave-mapper-history:${profileId ?? 'default'}`;
+
+export const createHistory = (mesh: Mesh, label = INITIAL_HISTORY_LABEL): MeshHistory => ({
+  entries: [{ label, mesh, time: Date.now() }],
+  index: 0,
+});
+
+const sameMesh = (a: Mesh, b: Mesh) => JSON.stringify(a) === JSON.stringify(b);
+
+const sameCornerPin = (change: CornerPinChange) =>
+  JSON.stringify(change.before) === JSON.stringify(change.after);
+
+/**
+ * Add an entry after the current one (dropping any redo entries).
+ * Returns the same history when neither the mesh nor the corner pin
+ * changed. With `coalesce`, a repeat of the latest action within
+ * COALESCE_MS replaces it instead.
+ */
+export const pushHistory = (
+  history: MeshHistory,
+  mesh: Mesh,
+  label: string,
+  coalesce = false,
+  cornerPin?: CornerPinChange
+): MeshHistory => {
+  const current = history.entries[history.index];
+  const pinChange = cornerPin && !sameCornerPin(cornerPin) ? cornerPin : undefined;
+  if (!pinChange && sameMesh(mesh, current.mesh)) return history;
+
+  const now = Date.now();
+  const entries = history.entries.slice(0, history.index + 1);
+  if (coalesce && history.index > 0 && current.label === label && now - current.time < COALESCE_MS) {
+    entries[history.index] = { label, mesh, time: now };
+    return { entries, index: history.index };
+  }
+
+  entries.push(pinChange ? { label, mesh, time: now, cornerPin: pinChange } : { label, mesh, time: now });
+  const trimmed = entries.slice(-MAX_HISTORY);
+  return { entries: trimmed, index: trimmed.length - 1 };
+};
+
+/**
+ * Corner pin to restore when moving from entry `from` to entry `to`:
+ * undoing past an entry puts back its pin from before, redoing applies
+ * the pin after. Null when no entry in between changed the pin.
+ */
+export const getCornerPinForJump = (
+  entries: HistoryEntry[],
+  from: number,
+  to: number
+): CornerPin | null => {
+  let pin: CornerPin | null = null;
+  if (to < from) {
+    for (let i = from; i > to; i--) pin = entries[i].cornerPin?.before ?? pin;
+  } else {
+    for (let i = from + 1; i <= to; i++) pin = entries[i].cornerPin?.after ?? pin;
+  }
+  return pin;
+};
+
+export const formatHistoryTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString(undefined, {
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+
+export type StoredHistory = MeshHistory & { outputId: string };
+
+/**
+ * Restore saved history for an output, positioned on the entry that
+ * matches the loaded mesh. Null when it belongs to another output or the
+ * mesh isn't in it (e.g. the calibration was changed elsewhere).
+ */
+export const parseStoredHistory = (json: string, outputId: string, mesh: Mesh): MeshHistory | null => {
+  const parsed = JSON.parse(json) as StoredHistory;
+  if (!parsed || parsed.outputId !== outputId || !Array.isArray(parsed.entries)) return null;
+
+  const entries = parsed.entries.filter(
+    (e) =>
+      e &&
+      typeof e.label === 'string' &&
+      Array.isArray(e.mesh) &&
+      (e.cornerPin === undefined ||
+        (Array.isArray(e.cornerPin?.before) &&
+          Array.isArray(e.cornerPin?.after) &&
+          isValidCornerPin(e.cornerPin.before) &&
+          isValidCornerPin(e.cornerPin.after)))
+  );
+  // Prefer the saved position, otherwise the latest matching entry
+  if (entries[parsed.index] && sameMesh(entries[parsed.index].mesh, mesh)) {
+    return { entries, index: parsed.index };
+  }
+  for (let i = entries.length - 1; i >= 0; i--) {
+    if (sameMesh(entries[i].mesh, mesh)) return { entries, index: i };
+  }
+  return null;
+};
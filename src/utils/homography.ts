@@ -0,0 +1,113 @@
+import { CornerPin, Mesh } from '../types';
+
+type Point = { x: number; y: number };
+
+// 3x3 matrix, row-major, with the last entry normalized to 1
+export type Homography = number[];
+
+// Corner pin that leaves the mesh untouched: TL, TR, BR, BL
+export const IDENTITY_CORNER_PIN: CornerPin = [
+  { x: 0, y: 0 },
+  { x: 1, y: 0 },
+  { x: 1, y: 1 },
+  { x: 0, y: 1 },
+];
+
+const EPSILON = 1e-9;
+
+export const isIdentityCornerPin = (corners: CornerPin): boolean =>
+  corners.every(
+    (c, i) =>
+      Math.abs(c.x - IDENTITY_CORNER_PIN[i].x) < EPSILON &&
+      Math.abs(c.y - IDENTITY_CORNER_PIN[i].y) < EPSILON
+  );
+
+/**
+ * True when the corners form a convex quad wound the same way as the unit
+ * square. Anything else (twisted or folded) has no usable homography.
+ */
+export const isValidCornerPin = (corners: CornerPin): boolean => {
+  if (corners.length !== 4) return false;
+  for (let i = 0; i < 4; i++) {
+    const a = corners[i];
+    const b = corners[(i + 1) % 4];
+    const c = corners[(i + 2) % 4];
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    if (cross <= EPSILON) return false;
+  }
+  return true;
+};
+
+/**
+ * Homography taking the unit square onto the corner-pin quad
+ * (Heckbert's square-to-quad mapping). Null for an invalid quad.
+ */
+export const computeHomography = (corners: CornerPin): Homography | null => {
+  if (!isValidCornerPin(corners)) return null;
+
+  const [p0, p1, p2, p3] = corners;
+  const dx1 = p1.x - p2.x;
+  const dx2 = p3.x - p2.x;
+  const dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy1 = p1.y - p2.y;
+  const dy2 = p3.y - p2.y;
+  const dy3 = p0.y - p1.y + p2.y - p3.y;
+
+  // Parallelogram: the mapping is affine
+  if (Math.abs(dx3) < EPSILON && Math.abs(dy3) < EPSILON) {
+    return [
+      p1.x - p0.x, p3.x - p0.x, p0.x,
+      p1.y - p0.y, p3.y - p0.y, p0.y,
+      0, 0, 1,
+    ];
+  }
+
+  const det = dx1 * dy2 - dx2 * dy1;
+  if (Math.abs(det) < EPSILON) return null;
+  const g = (dx3 * dy2 - dx2 * dy3) / det;
+  const h = (dx1 * dy3 - dx3 * dy1) / det;
+
+  return [
+    p1.x - p0.x + g * p1.x, p3.x - p0.x + h * p3.x, p0.x,
+    p1.y - p0.y + g * p1.y, p3.y - p0.y + h * p3.y, p0.y,
+    g, h, 1,
+  ];
+};
+
+export const invertHomography = (m: Homography): Homography | null => {
+  const [a, b, c, d, e, f, g, h, i] = m;
+  const A = e * i - f * h;
+  const B = f * g - d * i;
+  const C = d * h - e * g;
+  const det = a * A + b * B + c * C;
+  if (Math.abs(det) < EPSILON) return null;
+
+  const inv = [
+    A, c * h - b * i, b * f - c * e,
+    B, a * i - c * g, c * d - a * f,
+    C, b * g - a * h, a * e - b * d,
+  ];
+  return inv.map((v) => v / inv[8]);
+};
+
+export const applyHomography = (m: Homography, x: number, y: number): Point => {
+  const w = m[6] * x + m[7] * y + m[8];
+  return {
+    x: (m[0] * x + m[1] * y + m[2]) / w,
+    y: (m[3] * x + m[4] * y + m[5]) / w,
+  };
+};
+
+/**
+ * Mesh as it is drawn: every control point passed through the corner-pin
+ * homography. The fine mesh warp then interpolates between these points,
+ * so baking (replacing the mesh with this result) doesn't change the image.
+ * Returns the mesh itself when there is no corner pin.
+ */
+export const applyCornerPin = (mesh: Mesh, corners: CornerPin): Mesh => {
+  if (isIdentityCornerPin(corners)) return mesh;
+  const m = computeHomography(corners);
+  if (!m) return mesh;
+
+  return mesh.map((p) => ({ ...p, ...applyHomography(m, p.x, p.y) }));
+};
@@ -0,0 +1,109 @@
+import { Mask } from '../types';
+
+type Point = { x: number; y: number };
+
+export type MaskPathCommand =
+  | { type: 'M'; to: Point }
+  | { type: 'L'; to: Point }
+  | { type: 'C'; cp1: Point; cp2: Point; to: Point };
+
+export const DEFAULT_MASK_FEATHER = 12;
+export const MAX_MASK_FEATHER = 200;
+const MIN_MASK_POINTS = 3;
+
+// New mask: a rectangle inset from the output edges
+export const createMask = (index: number): Mask => ({
+  id: `mask-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+  name: `Mask ${index + 1}`,
+  points: [
+    { x: 0.1, y: 0.1 },
+    { x: 0.9, y: 0.1 },
+    { x: 0.9, y: 0.9 },
+    { x: 0.1, y: 0.9 },
+  ],
+  smooth: false,
+  inverted: false,
+  feather: DEFAULT_MASK_FEATHER,
+});
+
+/**
+ * Closed outline of a mask as path commands in normalized coordinates.
+ * Smooth masks run a closed Catmull-Rom curve through the points,
+ * converted to cubic bezier segments.
+ */
+export const getMaskPathCommands = (mask: Mask): MaskPathCommand[] => {
+  const pts = mask.points;
+  const n = pts.length;
+  if (n < MIN_MASK_POINTS) return [];
+
+  const commands: MaskPathCommand[] = [{ type: 'M', to: pts[0] }];
+
+  if (!mask.smooth) {
+    for (let i = 1; i < n; i++) commands.push({ type: 'L', to: pts[i] });
+    commands.push({ type: 'L', to: pts[0] });
+    return commands;
+  }
+
+  for (let i = 0; i < n; i++) {
+    const p0 = pts[(i - 1 + n) % n];
+    const p1 = pts[i];
+    const p2 = pts[(i + 1) % n];
+    const p3 = pts[(i + 2) % n];
+    commands.push({
+      type: 'C',
+      cp1: { x: p1.x + (p2.x - p0.x) / 6, y: p1.y + (p2.y - p0.y) / 6 },
+      cp2: { x: p2.x - (p3.x - p1.x) / 6, y: p2.y - (p3.y - p1.y) / 6 },
+      to: p2,
+    });
+  }
+  return commands;
+};
+
+// SVG path data for a mask, scaled to the given size
+export const maskToSvgPath = (mask: Mask, width: number, height: number): string => {
+  const fmt = (p: Point) => `${p.x * width},${p.y * height}`;
+  const parts = getMaskPathCommands(mask).map((cmd) =>
+    cmd.type === 'C'
+      ? `C${fmt(cmd.cp1)} ${fmt(cmd.cp2)} ${fmt(cmd.to)}`
+      : `${cmd.type}${fmt(cmd.to)}`
+  );
+  return parts.length ? `${parts.join(' ')} Z` : '';
+};
+
+const distanceToSegment = (p: Point, a: Point, b: Point): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0
+    ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq))
+    : 0;
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+/**
+ * Insert a point into the mask edge closest to it.
+ * Returns the new mask and the index of the inserted point.
+ */
+export const insertMaskPoint = (mask: Mask, point: Point): { mask: Mask; index: number } => {
+  const pts = mask.points;
+  let bestEdge = pts.length - 1;
+  let bestDist = Infinity;
+
+  for (let i = 0; i < pts.length; i++) {
+    const dist = distanceToSegment(point, pts[i], pts[(i + 1) % pts.length]);
+    if (dist < bestDist) {
+      bestDist = dist;
+      bestEdge = i;
+    }
+  }
+
+  const index = bestEdge + 1;
+  const points = [...pts.slice(0, index), point, ...pts.slice(index)];
+  return { mask: { ...mask, points }, index };
+};
+
+// Remove a point, keeping at least a triangle
+export const removeMaskPoint = (mask: Mask, index: number): Mask => {
+  if (mask.points.length <= MIN_MASK_POINTS) return mask;
+  return { ...mask, points: mask.points.filter((_, i) => i !== index) };
+};
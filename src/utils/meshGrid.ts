@@ -0,0 +1,512 @@
+import { InterpolationMode, Mesh, MeshPoint } from '../types';
+
+// Sub-quads per cell edge, shared by the calibration preview and playback
+export const DEFAULT_SUBDIVISIONS = 8;
+export const MIN_SUBDIVISIONS = 1;
+export const MAX_SUBDIVISIONS = 24;
+
+export type MeshDimensions = { rows: number; cols: number };
+
+// Source coordinates of each grid column (us) and row (vs), ascending 0-1,
+// and how many inserts deep each line is (0 for the original grid)
+export type GridKnots = { us: number[]; vs: number[]; uDepths: number[]; vDepths: number[] };
+
+/**
+ * Triangulated mesh ready for drawing.
+ *
+ * Both arrays hold an unindexed triangle list (x, y pairs, 3 vertices per
+ * triangle). `positions` are the warped output positions and `texCoords`
+ * are the matching positions in the undistorted source, all normalized 0-1.
+ */
+export type MeshTriangles = {
+  positions: Float32Array;
+  texCoords: Float32Array;
+  vertexCount: number;
+};
+
+// Parse a "row-col" point id
+export const parsePointId = (id: string): { row: number; col: number } => {
+  const [row, col] = id.split('-').map(Number);
+  return { row, col };
+};
+
+// Derive grid dimensions from the "row-col" ids in the mesh
+export const getMeshDimensions = (mesh: Mesh): MeshDimensions => {
+  let rows = 0;
+  let cols = 0;
+  for (const point of mesh) {
+    const { row, col } = parsePointId(point.id);
+    rows = Math.max(rows, row + 1);
+    cols = Math.max(cols, col + 1);
+  }
+  return { rows, cols };
+};
+
+// Initial mesh density for new calibrations
+export const DEFAULT_MESH_ROWS = 4;
+export const DEFAULT_MESH_COLS = 4;
+
+// Mesh density limits for the calibration UI
+export const MIN_MESH_SIZE = 2;
+export const MAX_MESH_SIZE = 16;
+
+// Flat rows x cols grid with "row-col" ids
+export const buildDefaultMesh = (rows: number, cols: number): Mesh => {
+  const points: Mesh = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      points.push({
+        id: `${r}-${c}`,
+        x: c / (cols - 1),
+        y: r / (rows - 1),
+      });
+    }
+  }
+  return points;
+};
+
+/**
+ * Arrange mesh points into a [row][col] lookup table.
+ * Missing points fall back to their undistorted grid position.
+ */
+export const getMeshGrid = (mesh: Mesh): MeshPoint[][] => {
+  const { rows, cols } = getMeshDimensions(mesh);
+  const byId = new Map(mesh.map((p) => [p.id, p]));
+  const grid: MeshPoint[][] = [];
+
+  for (let r = 0; r < rows; r++) {
+    const row: MeshPoint[] = [];
+    for (let c = 0; c < cols; c++) {
+      const id = `${r}-${c}`;
+      row.push(
+        byId.get(id) ?? {
+          id,
+          x: cols > 1 ? c / (cols - 1) : 0,
+          y: rows > 1 ? r / (rows - 1) : 0,
+        }
+      );
+    }
+    grid.push(row);
+  }
+  return grid;
+};
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+/**
+ * Source coordinates of the grid lines. Rows and columns are evenly spaced
+ * unless points carry their own u / v (see insertMeshLine).
+ */
+export const getGridKnots = (grid: MeshPoint[][]): GridKnots => {
+  const rows = grid.length;
+  const cols = grid[0]?.length ?? 0;
+  return {
+    us: grid[0]?.map((p, c) => p.u ?? (cols > 1 ? c / (cols - 1) : 0)) ?? [],
+    vs: grid.map((row, r) => row[0].v ?? (rows > 1 ? r / (rows - 1) : 0)),
+    uDepths: grid[0]?.map((p) => p.uDepth ?? 0) ?? [],
+    vDepths: grid.map((row) => row[0].vDepth ?? 0),
+  };
+};
+
+// Knots with `sub` evenly spaced steps inserted across every interval
+export const subdivideKnots = (knots: number[], sub: number): number[] => {
+  const result: number[] = [];
+  for (let i = 0; i < knots.length - 1; i++) {
+    for (let k = 0; k < sub; k++) {
+      result.push(lerp(knots[i], knots[i + 1], k / sub));
+    }
+  }
+  result.push(knots[knots.length - 1]);
+  return result;
+};
+
+// Interval of ascending `knots` containing t, plus the fraction inside it
+const locateKnot = (knots: number[], t: number) => {
+  const clamped = Math.max(knots[0], Math.min(knots[knots.length - 1], t));
+  let i = 0;
+  while (i < knots.length - 2 && clamped > knots[i + 1]) i++;
+  const span = knots[i + 1] - knots[i];
+  return { index: i, fraction: span > 0 ? (clamped - knots[i]) / span : 0 };
+};
+
+// Locate (u, v) in the grid: containing cell plus fractional offset inside it
+const locateCell = (knots: GridKnots, u: number, v: number) => {
+  const col = locateKnot(knots.us, u);
+  const row = locateKnot(knots.vs, v);
+  return { r: row.index, c: col.index, fu: col.fraction, fv: row.fraction };
+};
+
+const sampleBilinear = (grid: MeshPoint[][], knots: GridKnots, u: number, v: number) => {
+  const { r, c, fu, fv } = locateCell(knots, u, v);
+
+  const p0 = grid[r][c];
+  const p1 = grid[r][c + 1];
+  const p2 = grid[r + 1][c + 1];
+  const p3 = grid[r + 1][c];
+
+  return {
+    x: lerp(lerp(p0.x, p1.x, fu), lerp(p3.x, p2.x, fu), fv),
+    y: lerp(lerp(p0.y, p1.y, fu), lerp(p3.y, p2.y, fu), fv),
+  };
+};
+
+const ratio = (n: number, d: number) => (d > 0 ? n / d : 0);
+
+// Linear combination of line values, as [line index, weight] pairs
+type Stencil = [number, number][];
+
+const addStencil = (sum: Map<number, number>, stencil: Stencil, scale: number) => {
+  for (const [i, w] of stencil) sum.set(i, (sum.get(i) ?? 0) + w * scale);
+};
+
+/**
+ * Spline slope at each line, as a stencil over the line values.
+ *
+ * Lines of the original grid (depth 0) take the three-point slope through
+ * their depth-0 neighbours: Catmull-Rom, following the knot spacing, with
+ * a straight secant at the edges. An inserted line takes the slope the
+ * span it split had at that spot, from the nearest shallower lines either
+ * side. No line's slope depends on deeper lines, so inserting one leaves
+ * every other slope, and so the whole surface, exactly as it was.
+ */
+const getSplineSlopes = (knots: number[], depths: number[]): Stencil[] => {
+  const n = knots.length;
+  const slopes: Stencil[] = new Array(n);
+  const nearest = (i: number, step: number, maxDepth: number) => {
+    for (let j = i + step; j >= 0 && j < n; j += step) {
+      if (depths[j] <= maxDepth) return j;
+    }
+    return -1;
+  };
+
+  // Shallow lines first: deeper slopes are built from them
+  const order = knots.map((_, i) => i).sort((a, b) => depths[a] - depths[b]);
+  for (const i of order) {
+    const depth = depths[i];
+    const left = depth > 0 ? nearest(i, -1, depth - 1) : -1;
+    const right = depth > 0 ? nearest(i, 1, depth - 1) : -1;
+
+    if (left >= 0 && right >= 0) {
+      // Derivative of the parent span's cubic Hermite at this line
+      const h = knots[right] - knots[left];
+      const t = ratio(knots[i] - knots[left], h);
+      const sum = new Map<number, number>();
+      addStencil(sum, [[left, 1]], ratio(6 * t * t - 6 * t, h));
+      addStencil(sum, slopes[left], 3 * t * t - 4 * t + 1);
+      addStencil(sum, [[right, 1]], ratio(-6 * t * t + 6 * t, h));
+      addStencil(sum, slopes[right], 3 * t * t - 2 * t);
+      slopes[i] = [...sum];
+      continue;
+    }
+
+    const l = nearest(i, -1, 0);
+    const r = nearest(i, 1, 0);
+    if (l >= 0 && r >= 0) {
+      // Three-point slope, exact for quadratics
+      const a = ratio(knots[r] - knots[i], (knots[i] - knots[l]) * (knots[r] - knots[l]));
+      const b = ratio(knots[i] - knots[l], (knots[r] - knots[i]) * (knots[r] - knots[l]));
+      slopes[i] = [[l, -a], [i, a - b], [r, b]];
+    } else if (r >= 0) {
+      const w = ratio(1, knots[r] - knots[i]);
+      slopes[i] = [[i, -w], [r, w]];
+    } else if (l >= 0) {
+      const w = ratio(1, knots[i] - knots[l]);
+      slopes[i] = [[l, -w], [i, w]];
+    } else {
+      slopes[i] = [];
+    }
+  }
+  return slopes;
+};
+
+// Lines reaching one interval, each with its coefficients on the four
+// cubic Hermite basis functions: [line, h00, h10, h01, h11]
+type IntervalBasis = [number, number, number, number, number][];
+
+const getIntervalBases = (knots: number[], depths: number[]): IntervalBasis[] => {
+  const slopes = getSplineSlopes(knots, depths);
+  return knots.slice(0, -1).map((_, index) => {
+    const h = knots[index + 1] - knots[index];
+    const lines = new Map<number, [number, number, number, number, number]>();
+    const add = (line: number, basis: number, w: number) => {
+      const entry = lines.get(line) ?? [line, 0, 0, 0, 0];
+      entry[basis] += w;
+      lines.set(line, entry);
+    };
+    add(index, 1, 1);
+    slopes[index].forEach(([line, w]) => add(line, 2, w * h));
+    add(index + 1, 3, 1);
+    slopes[index + 1].forEach(([line, w]) => add(line, 4, w * h));
+    return [...lines.values()];
+  });
+};
+
+// Bases depend only on the knots, so keep them for repeated samples
+const basisCache = new WeakMap<GridKnots, { us: IntervalBasis[]; vs: IntervalBasis[] }>();
+
+const getKnotBases = (knots: GridKnots) => {
+  let bases = basisCache.get(knots);
+  if (!bases) {
+    bases = {
+      us: getIntervalBases(knots.us, knots.uDepths),
+      vs: getIntervalBases(knots.vs, knots.vDepths),
+    };
+    basisCache.set(knots, bases);
+  }
+  return bases;
+};
+
+// Weight of each basis entry at fraction t
+const evaluateBasis = (basis: IntervalBasis, t: number): number[] => {
+  const t2 = t * t;
+  const t3 = t2 * t;
+  const h00 = 2 * t3 - 3 * t2 + 1;
+  const h10 = t3 - 2 * t2 + t;
+  const h01 = -2 * t3 + 3 * t2;
+  const h11 = t3 - t2;
+  const weights = new Array<number>(basis.length);
+  for (let i = 0; i < basis.length; i++) {
+    const e = basis[i];
+    weights[i] = e[1] * h00 + e[2] * h10 + e[3] * h01 + e[4] * h11;
+  }
+  return weights;
+};
+
+const sampleSpline = (grid: MeshPoint[][], knots: GridKnots, u: number, v: number) => {
+  const { r, c, fu, fv } = locateCell(knots, u, v);
+  const bases = getKnotBases(knots);
+  const uBasis = bases.us[c];
+  const vBasis = bases.vs[r];
+  const wu = evaluateBasis(uBasis, fu);
+  const wv = evaluateBasis(vBasis, fv);
+
+  let x = 0;
+  let y = 0;
+  for (let i = 0; i < vBasis.length; i++) {
+    const row = grid[vBasis[i][0]];
+    for (let j = 0; j < uBasis.length; j++) {
+      const p = row[uBasis[j][0]];
+      const w = wv[i] * wu[j];
+      x += p.x * w;
+      y += p.y * w;
+    }
+  }
+  return { x, y };
+};
+
+/**
+ * Evaluate the warp at normalized source position (u, v), both 0-1.
+ * 'bilinear' interpolates inside the containing cell; 'spline' evaluates a
+ * smooth bicubic Catmull-Rom surface through all control points.
+ */
+export const sampleMeshGrid = (
+  grid: MeshPoint[][],
+  u: number,
+  v: number,
+  interpolation: InterpolationMode = 'bilinear',
+  knots: GridKnots = getGridKnots(grid)
+): { x: number; y: number } => {
+  const rows = grid.length;
+  const cols = grid[0]?.length ?? 0;
+  if (rows < 2 || cols < 2) return { x: u, y: v };
+
+  return interpolation === 'spline'
+    ? sampleSpline(grid, knots, u, v)
+    : sampleBilinear(grid, knots, u, v);
+};
+
+/**
+ * Resample a mesh onto a new rows x cols grid, keeping the current warp.
+ * New points are placed where the existing warp maps their grid position.
+ */
+export const resampleMesh = (
+  mesh: Mesh,
+  rows: number,
+  cols: number,
+  interpolation: InterpolationMode = 'bilinear'
+): Mesh => {
+  const grid = getMeshGrid(mesh);
+  const knots = getGridKnots(grid);
+  const points: Mesh = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const { x, y } = sampleMeshGrid(grid, c / (cols - 1), r / (rows - 1), interpolation, knots);
+      points.push({ id: `${r}-${c}`, x, y });
+    }
+  }
+  return points;
+};
+
+export type MeshAxis = 'row' | 'col';
+
+// Flatten a [row][col] grid back into a mesh with fresh "row-col" ids
+const gridToMesh = (grid: { x: number; y: number }[][], knots: GridKnots): Mesh => {
+  const points: Mesh = [];
+  grid.forEach((row, r) =>
+    row.forEach((p, c) => {
+      const point: MeshPoint = { id: `${r}-${c}`, x: p.x, y: p.y, u: knots.us[c], v: knots.vs[r] };
+      if (knots.uDepths[c] > 0) point.uDepth = knots.uDepths[c];
+      if (knots.vDepths[r] > 0) point.vDepth = knots.vDepths[r];
+      points.push(point);
+    })
+  );
+  return points;
+};
+
+/**
+ * Insert a row (or column) of points halfway between line `index` and the
+ * next one. The new points are placed where the current warp already maps
+ * them, so the image doesn't move (in spline mode too: see
+ * getSplineSlopes); ids after the insert are renumbered.
+ */
+export const insertMeshLine = (
+  mesh: Mesh,
+  axis: MeshAxis,
+  index: number,
+  interpolation: InterpolationMode = 'bilinear'
+): Mesh => {
+  const grid = getMeshGrid(mesh);
+  const knots = getGridKnots(grid);
+  const lineKnots = axis === 'row' ? knots.vs : knots.us;
+  const lineDepths = axis === 'row' ? knots.vDepths : knots.uDepths;
+  if (index < 0 || index >= lineKnots.length - 1 || lineKnots.length >= MAX_MESH_SIZE) return mesh;
+
+  const t = (lineKnots[index] + lineKnots[index + 1]) / 2;
+  const depth = Math.max(lineDepths[index], lineDepths[index + 1]) + 1;
+  const insert = <T>(values: T[], value: T) => [
+    ...values.slice(0, index + 1),
+    value,
+    ...values.slice(index + 1),
+  ];
+
+  if (axis === 'row') {
+    const newRow = knots.us.map((u) => sampleMeshGrid(grid, u, t, interpolation, knots));
+    return gridToMesh(insert<{ x: number; y: number }[]>(grid, newRow), {
+      ...knots,
+      vs: insert(knots.vs, t),
+      vDepths: insert(knots.vDepths, depth),
+    });
+  }
+
+  const newGrid = grid.map((row, r) =>
+    insert<{ x: number; y: number }>(row, sampleMeshGrid(grid, t, knots.vs[r], interpolation, knots))
+  );
+  return gridToMesh(newGrid, {
+    ...knots,
+    us: insert(knots.us, t),
+    uDepths: insert(knots.uDepths, depth),
+  });
+};
+
+/**
+ * Largest distance between two meshes' warps, sampled on an even lattice
+ * of the source (normalized units). Used to check that edits meant to
+ * keep the image in place, like insertMeshLine, really do.
+ */
+export const getSurfaceShift = (
+  before: Mesh,
+  after: Mesh,
+  interpolation: InterpolationMode = 'bilinear',
+  samples = 32
+): number => {
+  const beforeGrid = getMeshGrid(before);
+  const afterGrid = getMeshGrid(after);
+  const beforeKnots = getGridKnots(beforeGrid);
+  const afterKnots = getGridKnots(afterGrid);
+  let shift = 0;
+  for (let i = 0; i <= samples; i++) {
+    for (let j = 0; j <= samples; j++) {
+      const u = j / samples;
+      const v = i / samples;
+      const a = sampleMeshGrid(beforeGrid, u, v, interpolation, beforeKnots);
+      const b = sampleMeshGrid(afterGrid, u, v, interpolation, afterKnots);
+      shift = Math.max(shift, Math.hypot(a.x - b.x, a.y - b.y));
+    }
+  }
+  return shift;
+};
+
+/**
+ * Remove an inner row (or column) of points and renumber the ids. Edge
+ * lines stay, since they define which part of the source is shown.
+ */
+export const removeMeshLine = (mesh: Mesh, axis: MeshAxis, index: number): Mesh => {
+  const grid = getMeshGrid(mesh);
+  const knots = getGridKnots(grid);
+  const lineKnots = axis === 'row' ? knots.vs : knots.us;
+  if (index <= 0 || index >= lineKnots.length - 1 || lineKnots.length <= MIN_MESH_SIZE) return mesh;
+
+  const keep = <T>(_: T, i: number) => i !== index;
+  if (axis === 'row') {
+    return gridToMesh(grid.filter(keep), {
+      ...knots,
+      vs: knots.vs.filter(keep),
+      vDepths: knots.vDepths.filter(keep),
+    });
+  }
+  return gridToMesh(
+    grid.map((row) => row.filter(keep)),
+    { ...knots, us: knots.us.filter(keep), uDepths: knots.uDepths.filter(keep) }
+  );
+};
+
+/**
+ * Split every mesh cell into `subdivisions` x `subdivisions` sub-quads,
+ * two triangles each. Vertex positions are evaluated with the chosen
+ * interpolation mode; texture coordinates follow the grid knots.
+ */
+export const triangulateMesh = (
+  mesh: Mesh,
+  subdivisions: number = 1,
+  interpolation: InterpolationMode = 'bilinear'
+): MeshTriangles => {
+  const grid = getMeshGrid(mesh);
+  const rows = grid.length;
+  const cols = grid[0]?.length ?? 0;
+  const sub = Math.max(1, Math.floor(subdivisions));
+
+  if (rows < 2 || cols < 2) {
+    return { positions: new Float32Array(0), texCoords: new Float32Array(0), vertexCount: 0 };
+  }
+
+  // Evaluate the warp once per lattice vertex, then emit triangles from it
+  const knots = getGridKnots(grid);
+  const latticeU = subdivideKnots(knots.us, sub);
+  const latticeV = subdivideKnots(knots.vs, sub);
+  const latticeCols = latticeU.length;
+  const latticeRows = latticeV.length;
+  const lattice = new Float32Array(latticeRows * latticeCols * 2);
+  for (let i = 0; i < latticeRows; i++) {
+    for (let j = 0; j < latticeCols; j++) {
+      const { x, y } = sampleMeshGrid(grid, latticeU[j], latticeV[i], interpolation, knots);
+      const index = (i * latticeCols + j) * 2;
+      lattice[index] = x;
+      lattice[index + 1] = y;
+    }
+  }
+
+  const vertexCount = (latticeRows - 1) * (latticeCols - 1) * 6;
+  const positions = new Float32Array(vertexCount * 2);
+  const texCoords = new Float32Array(vertexCount * 2);
+  let offset = 0;
+
+  for (let i = 0; i < latticeRows - 1; i++) {
+    for (let j = 0; j < latticeCols - 1; j++) {
+      // Two triangles: (tl, tr, br) and (tl, br, bl)
+      const corners: [number, number][] = [
+        [i, j], [i, j + 1], [i + 1, j + 1],
+        [i, j], [i + 1, j + 1], [i + 1, j],
+      ];
+      for (const [li, lj] of corners) {
+        const index = (li * latticeCols + lj) * 2;
+        positions[offset] = lattice[index];
+        positions[offset + 1] = lattice[index + 1];
+        texCoords[offset] = latticeU[lj];
+        texCoords[offset + 1] = latticeV[li];
+        offset += 2;
+      }
+    }
+  }
+
+  return { positions, texCoords, vertexCount };
+};
@@ -0,0 +1,85 @@
+import { Mesh } from '../types';
+import { getGridKnots, getMeshGrid } from './meshGrid';
+
+export type CellIssue = 'inverted' | 'degenerate' | 'stretched';
+
+export type CellProblem = {
+  row: number; // top-left point of the cell
+  col: number;
+  issue: CellIssue;
+  corners: { x: number; y: number }[]; // tl, tr, br, bl (normalized)
+};
+
+// Cells smaller than this fraction of their source area count as collapsed
+export const MIN_CELL_AREA_RATIO = 0.05;
+// Width:height this many times off the source cell's counts as stretched
+export const MAX_CELL_STRETCH = 8;
+
+export const CELL_ISSUE_LABELS: Record<CellIssue, string> = {
+  inverted: 'folded over',
+  degenerate: 'collapsed',
+  stretched: 'badly stretched',
+};
+
+type Vec = { x: number; y: number };
+
+const cross = (o: Vec, a: Vec, b: Vec) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+const distance = (a: Vec, b: Vec) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Check every cell of a mesh (normally the displayed one, corner pin
+ * applied). Positions are scaled by `aspect` (width / height) so areas and
+ * edge lengths compare like screen pixels.
+ *
+ * - inverted: a corner turns the wrong way, so the quad is flipped,
+ *   concave or self-intersecting
+ * - degenerate: the area has (almost) vanished
+ * - stretched: far more elongated than the same cell in the source
+ */
+export const validateMesh = (mesh: Mesh, aspect = 1): CellProblem[] => {
+  const grid = getMeshGrid(mesh);
+  const rows = grid.length;
+  const cols = grid[0]?.length ?? 0;
+  if (rows < 2 || cols < 2) return [];
+  const knots = getGridKnots(grid);
+  const toScreen = (p: Vec) => ({ x: p.x * aspect, y: p.y });
+
+  const problems: CellProblem[] = [];
+  for (let r = 0; r < rows - 1; r++) {
+    for (let c = 0; c < cols - 1; c++) {
+      const corners = [grid[r][c], grid[r][c + 1], grid[r + 1][c + 1], grid[r + 1][c]];
+      const [tl, tr, br, bl] = corners.map(toScreen);
+      const report = (issue: CellIssue) =>
+        problems.push({ row: r, col: c, issue, corners: corners.map(({ x, y }) => ({ x, y })) });
+
+      // Screen y points down, so a proper cell turns clockwise (positive cross) at every corner
+      const turns = [cross(tl, tr, br), cross(tr, br, bl), cross(br, bl, tl), cross(bl, tl, tr)];
+      if (turns.some((t) => t <= 0)) {
+        report('inverted');
+        continue;
+      }
+
+      const sourceWidth = (knots.us[c + 1] - knots.us[c]) * aspect;
+      const sourceHeight = knots.vs[r + 1] - knots.vs[r];
+      const area = (cross(tl, tr, br) + cross(tl, br, bl)) / 2;
+      if (area < sourceWidth * sourceHeight * MIN_CELL_AREA_RATIO) {
+        report('degenerate');
+        continue;
+      }
+
+      const width = (distance(tl, tr) + distance(bl, br)) / 2;
+      const height = (distance(tl, bl) + distance(tr, br)) / 2;
+      const stretch = width / height / (sourceWidth / sourceHeight);
+      if (Math.max(stretch, 1 / stretch) > MAX_CELL_STRETCH) report('stretched');
+    }
+  }
+  return problems;
+};
+
+// "2 folded over, 1 collapsed"
+export const describeProblems = (problems: CellProblem[]) =>
+  (Object.keys(CELL_ISSUE_LABELS) as CellIssue[])
+    .map((issue) => ({ issue, count: problems.filter((p) => p.issue === issue).length }))
+    .filter(({ count }) => count > 0)
+    .map(({ issue, count }) => `${count} ${CELL_ISSUE_LABELS[issue]}`)
+    .join(', ');
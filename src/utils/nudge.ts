@@ -0,0 +1,46 @@
+import { Mesh, NudgeStep } from '../types';
+import { parsePointId } from './meshGrid';
+
+// Nudge distances in normalized output units. On a 3840px-wide output one
+// pixel is ~0.00026, so 'subpixel' moves a point about a third of a pixel.
+export const NUDGE_STEP_SIZES: Record<NudgeStep, number> = {
+  coarse: 0.01,
+  fine: 0.001,
+  subpixel: 0.0001,
+};
+
+export const NUDGE_STEP_ORDER: NudgeStep[] = ['coarse', 'fine', 'subpixel'];
+
+export const NUDGE_STEP_LABELS: Record<NudgeStep, string> = {
+  coarse: 'Coarse',
+  fine: 'Fine',
+  subpixel: 'Sub-px',
+};
+
+// Arrow key → unit direction
+export const NUDGE_KEY_DIRECTIONS: Record<string, { dx: number; dy: number }> = {
+  ArrowUp: { dx: 0, dy: -1 },
+  ArrowDown: { dx: 0, dy: 1 },
+  ArrowLeft: { dx: -1, dy: 0 },
+  ArrowRight: { dx: 1, dy: 0 },
+};
+
+export const nextNudgeStep = (step: NudgeStep): NudgeStep =>
+  NUDGE_STEP_ORDER[(NUDGE_STEP_ORDER.indexOf(step) + 1) % NUDGE_STEP_ORDER.length];
+
+/**
+ * Point id after (or before, with `direction` -1) the current one in
+ * row-major order, wrapping around. Starts at the first point when
+ * nothing is selected.
+ */
+export const cyclePointId = (mesh: Mesh, currentId: string | null, direction: 1 | -1): string | null => {
+  if (mesh.length === 0) return null;
+
+  const ids = mesh
+    .map((p) => ({ id: p.id, ...parsePointId(p.id) }))
+    .sort((a, b) => a.row - b.row || a.col - b.col)
+    .map((p) => p.id);
+  const index = currentId ? ids.indexOf(currentId) : -1;
+  if (index === -1) return direction === 1 ? ids[0] : ids[ids.length - 1];
+  return ids[(index + direction + ids.length) % ids.length];
+};
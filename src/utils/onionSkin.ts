@@ -0,0 +1,61 @@
+import { CalibrationProfile, GhostSource, Mesh, MeshHistory } from '../types';
+
+// Below this (editor pixels) a point counts as unmoved
+export const MIN_DISPLACEMENT_PX = 0.5;
+
+/**
+ * Pixel offset of every point from the reference point with the same id.
+ * Points the reference doesn't have (different density) are left out.
+ */
+export const getDisplacements = (
+  mesh: Mesh,
+  reference: Mesh,
+  width: number,
+  height: number
+): Record<string, number> => {
+  const byId = new Map(reference.map((p) => [p.id, p]));
+  const result: Record<string, number> = {};
+  for (const p of mesh) {
+    const ref = byId.get(p.id);
+    if (ref) result[p.id] = Math.hypot((p.x - ref.x) * width, (p.y - ref.y) * height);
+  }
+  return result;
+};
+
+export const countMovedPoints = (mesh: Mesh, reference: Mesh) => {
+  const byId = new Map(reference.map((p) => [p.id, p]));
+  return mesh.filter((p) => {
+    const ref = byId.get(p.id);
+    return ref && (ref.x !== p.x || ref.y !== p.y);
+  }).length;
+};
+
+// Put points back where the reference has them (same id only)
+export const revertPoints = (mesh: Mesh, reference: Mesh, ids: string[]): Mesh => {
+  const byId = new Map(reference.map((p) => [p.id, p]));
+  return mesh.map((p) => {
+    const ref = byId.get(p.id);
+    return ref && ids.includes(p.id) ? { ...p, x: ref.x, y: ref.y } : p;
+  });
+};
+
+/**
+ * Mesh and label for a ghost source. Profiles use the output with the same
+ * id (else their first one); null when the source no longer exists.
+ */
+export const resolveGhost = (
+  source: GhostSource,
+  context: { savedMesh: Mesh; profiles: CalibrationProfile[]; outputId: string; history: MeshHistory }
+): { mesh: Mesh; label: string } | null => {
+  if (source.kind === 'saved') return { mesh: context.savedMesh, label: 'saved' };
+
+  if (source.kind === 'profile') {
+    const profile = context.profiles.find((p) => p.id === source.profileId);
+    if (!profile) return null;
+    const output = profile.outputs.find((o) => o.id === context.outputId) ?? profile.outputs[0];
+    return { mesh: output.mesh, label: profile.name };
+  }
+
+  const entry = context.history.entries[source.index];
+  return entry ? { mesh: entry.mesh, label: `"${entry.label}"` } : null;
+};
@@ -0,0 +1,75 @@
+import { Platform } from 'react-native';
+
+const OUTPUT_PARAM = 'output';
+const SYNC_CHANNEL = 'concave-mapper-sync';
+
+// Messages shared between the control window and projector output windows
+export type OutputSyncMessage =
+  | { type: 'play' }
+  | { type: 'blackout'; value: boolean }
+  | { type: 'cue'; id: string }
+  | { type: 'outputs-updated' }
+  | { type: 'cues-updated' };
+
+// The parts of the Window Management API used to place output windows
+type ScreenDetailed = { left: number; top: number; availWidth: number; availHeight: number };
+type ScreenDetailsWindow = Window & {
+  getScreenDetails?: () => Promise<{ screens: ScreenDetailed[] }>;
+};
+
+/**
+ * Output id when this window was opened as a projector output (web only),
+ * e.g. `/?output=output-123`.
+ */
+export const getOutputWindowId = (): string | null => {
+  if (Platform.OS !== 'web' || typeof window === 'undefined') return null;
+  return new URLSearchParams(window.location.search).get(OUTPUT_PARAM);
+};
+
+/**
+ * Open an output in its own browser window. Where the Window Management
+ * API is available the window is moved onto screen `screenIndex`, so each
+ * output can land on a different projector; otherwise drag it there.
+ */
+export const openOutputWindow = (outputId: string, screenIndex: number) => {
+  if (Platform.OS !== 'web') return;
+
+  const url = `${window.location.origin}${window.location.pathname}?${OUTPUT_PARAM}=${encodeURIComponent(outputId)}`;
+  // Open synchronously so the popup keeps the user's tap as its activation
+  const win = window.open(url, outputId, 'popup');
+  if (!win) {
+    console.warn('Output window was blocked by the browser');
+    return;
+  }
+
+  const { getScreenDetails } = window as ScreenDetailsWindow;
+  if (!getScreenDetails) return;
+
+  getScreenDetails
+    .call(window)
+    .then((details) => {
+      const screen = details.screens[screenIndex];
+      if (!screen) return;
+      win.moveTo(screen.left, screen.top);
+      win.resizeTo(screen.availWidth, screen.availHeight);
+    })
+    .catch((e: unknown) => console.warn('Screen placement unavailable', e));
+};
+
+/**
+ * Broadcast playback state between windows of the same show.
+ * A no-op where BroadcastChannel is unavailable (native).
+ */
+export const createOutputSync = (onMessage: (message: OutputSyncMessage) => void) => {
+  if (typeof BroadcastChannel === 'undefined') {
+    return { post: (_message: OutputSyncMessage) => {}, close: () => {} };
+  }
+
+  const channel = new BroadcastChannel(SYNC_CHANNEL);
+  channel.onmessage = (e: MessageEvent<OutputSyncMessage>) => onMessage(e.data);
+
+  return {
+    post: (message: OutputSyncMessage) => channel.postMessage(message),
+    close: () => channel.close(),
+  };
+};
@@ -0,0 +1,100 @@
+import { Calibration, ContentRegion, EdgeBlend, ProjectorOutput } from '../types';
+import { DEFAULT_CALIBRATION_SETTINGS, normalizeCalibration } from './calibration';
+import { DEFAULT_MESH_COLS, DEFAULT_MESH_ROWS, buildDefaultMesh } from './meshGrid';
+
+export const DEFAULT_BLEND_GAMMA = 2.2;
+export const MAX_OUTPUTS = 4;
+export const FULL_REGION: ContentRegion = { x: 0, y: 0, width: 1, height: 1 };
+
+export const createOutput = (index: number, calibration?: Calibration): ProjectorOutput => ({
+  ...DEFAULT_CALIBRATION_SETTINGS,
+  mesh: buildDefaultMesh(DEFAULT_MESH_ROWS, DEFAULT_MESH_COLS),
+  ...calibration,
+  id: `output-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+  name: `Output ${index + 1}`,
+  region: FULL_REGION,
+  blendGamma: DEFAULT_BLEND_GAMMA,
+});
+
+/**
+ * Parse outputs saved under OUTPUTS_KEY. Each entry goes through the
+ * calibration parser so older saves pick up new settings defaults.
+ */
+export const parseStoredOutputs = (json: string): ProjectorOutput[] => {
+  const parsed = JSON.parse(json);
+  if (!Array.isArray(parsed)) return [];
+  return normalizeOutputs(parsed);
+};
+
+// Fill in fields missing from stored outputs (also used for profiles)
+export const normalizeOutputs = (entries: ProjectorOutput[]): ProjectorOutput[] =>
+  entries.map((entry, index) => ({
+    ...createOutput(index),
+    ...entry,
+    ...normalizeCalibration(entry),
+  }));
+
+// Overlap of two 1D ranges [a0, a1] and [b0, b1]
+const overlap = (a0: number, a1: number, b0: number, b1: number) =>
+  Math.max(0, Math.min(a1, b1) - Math.max(a0, b0));
+
+/**
+ * Edge-blend ramps for one output, from where its content region overlaps
+ * the other outputs' regions. An overlap that covers an edge of this region
+ * gets a ramp as wide as the overlap; the neighbouring output gets the
+ * mirrored ramp, so the two cross-fade.
+ */
+export const computeEdgeBlend = (outputs: ProjectorOutput[], outputId: string): EdgeBlend | null => {
+  const output = outputs.find((o) => o.id === outputId);
+  if (!output) return null;
+
+  const r = output.region;
+  const right = r.x + r.width;
+  const bottom = r.y + r.height;
+  const blend: EdgeBlend = { left: 0, top: 0, right: 0, bottom: 0, gamma: output.blendGamma };
+
+  for (const other of outputs) {
+    if (other.id === output.id) continue;
+    const o = other.region;
+    const oRight = o.x + o.width;
+    const oBottom = o.y + o.height;
+
+    if (overlap(r.y, bottom, o.y, oBottom) > 0) {
+      // Neighbour on the left covers our left edge
+      if (o.x < r.x && oRight > r.x && oRight < right) {
+        blend.left = Math.max(blend.left, (oRight - r.x) / r.width);
+      }
+      // Neighbour on the right covers our right edge
+      if (oRight > right && o.x < right && o.x > r.x) {
+        blend.right = Math.max(blend.right, (right - o.x) / r.width);
+      }
+    }
+    if (overlap(r.x, right, o.x, oRight) > 0) {
+      if (o.y < r.y && oBottom > r.y && oBottom < bottom) {
+        blend.top = Math.max(blend.top, (oBottom - r.y) / r.height);
+      }
+      if (oBottom > bottom && o.y < bottom && o.y > r.y) {
+        blend.bottom = Math.max(blend.bottom, (bottom - o.y) / r.height);
+      }
+    }
+  }
+
+  const hasBlend = blend.left > 0 || blend.top > 0 || blend.right > 0 || blend.bottom > 0;
+  return hasBlend ? blend : null;
+};
+
+/**
+ * Blend factor at a local (u, v) position inside an output's region.
+ * Smoothstep ramps cross-fade in linear light; the result is then
+ * gamma-encoded so it can multiply gamma-encoded pixel values.
+ */
+export const edgeBlendFactor = (blend: EdgeBlend, u: number, v: number): number => {
+  const ramp = (distance: number, width: number) => {
+    if (width <= 0) return 1;
+    const t = Math.max(0, Math.min(1, distance / width));
+    return t * t * (3 - 2 * t);
+  };
+  const linear =
+    ramp(u, blend.left) * ramp(v, blend.top) * ramp(1 - u, blend.right) * ramp(1 - v, blend.bottom);
+  return Math.pow(linear, 1 / blend.gamma);
+};
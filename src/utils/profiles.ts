@@ -0,0 +1,54 @@
+import { CalibrationProfile, ProjectorOutput } from '../types';
+import { normalizeOutputs } from './outputs';
+
+export const createProfile = (name: string, outputs: ProjectorOutput[]): CalibrationProfile => {
+  const now = Date.now();
+  return {
+    id: `profile-${now}-${Math.random().toString(36).substr(2, 9)}`,
+    name,
+    createdAt: now,
+    updatedAt: now,
+    outputs,
+  };
+};
+
+// First unused "Venue N" name
+export const nextProfileName = (profiles: CalibrationProfile[]): string => {
+  const names = new Set(profiles.map((p) => p.name));
+  let n = profiles.length + 1;
+  while (names.has(`Venue ${n}`)) n++;
+  return `Venue ${n}`;
+};
+
+export const duplicateProfile = (
+  profile: CalibrationProfile,
+  profiles: CalibrationProfile[]
+): CalibrationProfile => {
+  const names = new Set(profiles.map((p) => p.name));
+  let name = `${profile.name} copy`;
+  for (let n = 2; names.has(name); n++) name = `${profile.name} copy ${n}`;
+  return createProfile(name, profile.outputs);
+};
+
+// Parse profiles saved under the profiles key, newest first
+export const parseStoredProfiles = (json: string): CalibrationProfile[] => {
+  const parsed = JSON.parse(json);
+  if (!Array.isArray(parsed)) return [];
+
+  return parsed
+    .filter((p) => p && typeof p.id === 'string' && Array.isArray(p.outputs) && p.outputs.length > 0)
+    .map((p) => ({
+      ...p,
+      name: typeof p.name === 'string' ? p.name : 'Untitled',
+      outputs: normalizeOutputs(p.outputs),
+    }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const formatProfileDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
@@ -0,0 +1,106 @@
+import { Mesh, MeshPoint, RelaxMethod, RelaxSettings } from '../types';
+import { getGridKnots, getMeshGrid } from './meshGrid';
+
+type Point = { x: number; y: number };
+
+export const MIN_RELAX_ITERATIONS = 1;
+export const MAX_RELAX_ITERATIONS = 50;
+
+export const DEFAULT_RELAX_SETTINGS: RelaxSettings = {
+  method: 'laplacian',
+  strength: 0.5,
+  iterations: 10,
+  keepBoundary: true,
+};
+
+export const RELAX_METHODS: { method: RelaxMethod; label: string }[] = [
+  { method: 'laplacian', label: 'Laplacian' },
+  { method: 'bending', label: 'Bending' },
+];
+
+export const clampRelaxIterations = (iterations: number) =>
+  Math.max(MIN_RELAX_ITERATIONS, Math.min(MAX_RELAX_ITERATIONS, iterations));
+
+export const clampRelaxStrength = (strength: number) => Math.max(0.05, Math.min(1, strength));
+
+const lerp = (a: Point, b: Point, t: number): Point => ({
+  x: a.x + (b.x - a.x) * t,
+  y: a.y + (b.y - a.y) * t,
+});
+
+/**
+ * Smoothed position of `line[i]` from its neighbours along one grid line.
+ * Works on offsets from the unwarped positions (`source`), so an unwarped
+ * mesh never moves however its lines are spaced. Laplacian: the
+ * neighbours' offsets interpolated by spacing. Bending: the minimum of the
+ * second difference over two neighbours each side, falling back to
+ * Laplacian next to the ends.
+ */
+const smoothAlongLine = (
+  line: Point[],
+  source: Point[],
+  knots: number[],
+  i: number,
+  method: RelaxMethod
+): Point => {
+  const offset = (j: number) => ({ x: line[j].x - source[j].x, y: line[j].y - source[j].y });
+  const t = (knots[i] - knots[i - 1]) / (knots[i + 1] - knots[i - 1]);
+  let smoothed = lerp(offset(i - 1), offset(i + 1), t);
+
+  if (method === 'bending' && i >= 2 && i <= line.length - 3) {
+    const [prev2, prev, next, next2] = [offset(i - 2), offset(i - 1), offset(i + 1), offset(i + 2)];
+    smoothed = {
+      x: (4 * (prev.x + next.x) - (prev2.x + next2.x)) / 6,
+      y: (4 * (prev.y + next.y) - (prev2.y + next2.y)) / 6,
+    };
+  }
+  return { x: source[i].x + smoothed.x, y: source[i].y + smoothed.y };
+};
+
+/**
+ * Smooth a mesh's interior, a pass at a time. Each pass moves every free
+ * point `strength` of the way to the average of its row and column
+ * estimates. Edge points (when not kept) only slide along their edge, so
+ * the outline keeps its shape; corners and locked points never move.
+ */
+export const relaxMesh = (mesh: Mesh, settings: RelaxSettings, lockedIds: string[] = []): Mesh => {
+  let grid: MeshPoint[][] = getMeshGrid(mesh);
+  const rows = grid.length;
+  const cols = grid[0]?.length ?? 0;
+  if (rows < 3 && cols < 3) return mesh;
+
+  const { us, vs } = getGridKnots(grid);
+  const locked = new Set(lockedIds);
+  const iterations = clampRelaxIterations(Math.round(settings.iterations));
+
+  for (let pass = 0; pass < iterations; pass++) {
+    const current = grid;
+    grid = current.map((row, r) =>
+      row.map((point, c) => {
+        const onRowEdge = r === 0 || r === rows - 1;
+        const onColEdge = c === 0 || c === cols - 1;
+        if (locked.has(point.id) || (onRowEdge && onColEdge)) return point;
+        if ((onRowEdge || onColEdge) && settings.keepBoundary) return point;
+
+        const estimates: Point[] = [];
+        if (!onColEdge) {
+          const source = us.map((u) => ({ x: u, y: vs[r] }));
+          estimates.push(smoothAlongLine(current[r], source, us, c, settings.method));
+        }
+        if (!onRowEdge) {
+          const column = current.map((line) => line[c]);
+          const source = vs.map((v) => ({ x: us[c], y: v }));
+          estimates.push(smoothAlongLine(column, source, vs, r, settings.method));
+        }
+        const target = {
+          x: estimates.reduce((sum, p) => sum + p.x, 0) / estimates.length,
+          y: estimates.reduce((sum, p) => sum + p.y, 0) / estimates.length,
+        };
+        return { ...point, ...lerp(point, target, settings.strength) };
+      })
+    );
+  }
+
+  const byId = new Map(grid.flat().map((p) => [p.id, p]));
+  return mesh.map((p) => byId.get(p.id) ?? p);
+};
@@ -0,0 +1,121 @@
+import { Mesh } from '../types';
+import { parsePointId } from './meshGrid';
+
+type Point = { x: number; y: number };
+
+export type GizmoHandle = 'move' | 'scale' | 'rotate';
+
+export type GroupTransform = {
+  dx: number;
+  dy: number;
+  scale: number;
+  rotation: number; // radians
+};
+
+export type SelectionBounds = {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  centroid: Point;
+};
+
+const ROTATE_HANDLE_OFFSET = 36; // px above the selection box
+
+export const IDENTITY_TRANSFORM: GroupTransform = { dx: 0, dy: 0, scale: 1, rotation: 0 };
+
+// Even-odd test against a closed polygon (lasso or marquee)
+export const pointInPolygon = (p: Point, polygon: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.y > p.y !== b.y > p.y && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export const marqueeToPolygon = (start: Point, end: Point): Point[] => [
+  { x: start.x, y: start.y },
+  { x: end.x, y: start.y },
+  { x: end.x, y: end.y },
+  { x: start.x, y: end.y },
+];
+
+// Every point sharing a row (or column) with one of the given ids
+export const selectLines = (mesh: Mesh, ids: string[], axis: 'row' | 'col'): string[] => {
+  const lines = new Set(ids.map((id) => parsePointId(id)[axis]));
+  return mesh.filter((p) => lines.has(parsePointId(p.id)[axis])).map((p) => p.id);
+};
+
+export const getSelectionBounds = (points: Point[]): SelectionBounds | null => {
+  if (points.length === 0) return null;
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  let sumX = 0;
+  let sumY = 0;
+  for (const p of points) {
+    minX = Math.min(minX, p.x);
+    minY = Math.min(minY, p.y);
+    maxX = Math.max(maxX, p.x);
+    maxY = Math.max(maxY, p.y);
+    sumX += p.x;
+    sumY += p.y;
+  }
+  return {
+    minX,
+    minY,
+    maxX,
+    maxY,
+    centroid: { x: sumX / points.length, y: sumY / points.length },
+  };
+};
+
+// Gizmo handle positions, in the same (pixel) space as the bounds
+export const getGizmoHandles = (bounds: SelectionBounds): Record<GizmoHandle, Point> => ({
+  move: bounds.centroid,
+  scale: { x: bounds.maxX, y: bounds.maxY },
+  rotate: { x: (bounds.minX + bounds.maxX) / 2, y: bounds.minY - ROTATE_HANDLE_OFFSET },
+});
+
+/**
+ * Transform for dragging a gizmo handle from `start` to `current`.
+ * Scale and rotation are measured around the centroid.
+ */
+export const getHandleTransform = (
+  handle: GizmoHandle,
+  centroid: Point,
+  start: Point,
+  current: Point
+): GroupTransform => {
+  if (handle === 'move') {
+    return { ...IDENTITY_TRANSFORM, dx: current.x - start.x, dy: current.y - start.y };
+  }
+
+  const startDist = Math.hypot(start.x - centroid.x, start.y - centroid.y);
+  if (handle === 'scale') {
+    const dist = Math.hypot(current.x - centroid.x, current.y - centroid.y);
+    return { ...IDENTITY_TRANSFORM, scale: startDist > 0 ? dist / startDist : 1 };
+  }
+
+  const startAngle = Math.atan2(start.y - centroid.y, start.x - centroid.x);
+  const angle = Math.atan2(current.y - centroid.y, current.x - centroid.x);
+  return { ...IDENTITY_TRANSFORM, rotation: angle - startAngle };
+};
+
+// Scale and rotate about the centroid, then translate
+export const transformPoint = (p: Point, centroid: Point, t: GroupTransform): Point => {
+  const cos = Math.cos(t.rotation) * t.scale;
+  const sin = Math.sin(t.rotation) * t.scale;
+  const x = p.x - centroid.x;
+  const y = p.y - centroid.y;
+  return {
+    x: centroid.x + x * cos - y * sin + t.dx,
+    y: centroid.y + x * sin + y * cos + t.dy,
+  };
+};
@@ -0,0 +1,334 @@
+import { ProjectorOutput } from '../types';
+import { VideoCue } from '../types/video';
+import { normalizeCalibration } from './calibration';
+import { MAX_OUTPUTS, createOutput } from './outputs';
+import { MAX_MESH_SIZE, MIN_MESH_SIZE, parsePointId } from './meshGrid';
+import { numberCues } from './cues';
+
+export const SHOW_FILE_FORMAT = 'concave-mapper-show';
+export const SHOW_FILE_VERSION = 1;
+export const SHOW_FILE_EXTENSION = '.show.json';
+
+// Everything needed to restore a show on another device
+export type ShowFile = {
+  format: typeof SHOW_FILE_FORMAT;
+  version: number;
+  exportedAt: string; // ISO date
+  outputs: ProjectorOutput[];
+  cues: VideoCue[];
+};
+
+export type ShowFileResult =
+  | { ok: true; show: ShowFile; migratedFrom: number | null }
+  | { ok: false; errors: string[] };
+
+export type ShowImportMode = 'replace' | 'merge';
+
+// Outcome of an import, listed in the show panel
+export type ShowImportReport = { ok: boolean; messages: string[] };
+
+/**
+ * Forward migrations, keyed by the version they upgrade from.
+ * Version 0 is a bare calibration as stored under the legacy mesh key
+ * (a mesh array or a calibration object), before show files existed.
+ */
+const MIGRATIONS: Record<number, (data: unknown) => unknown> = {
+  0: (data) => ({
+    format: SHOW_FILE_FORMAT,
+    version: 1,
+    exportedAt: new Date(0).toISOString(),
+    outputs: [createOutput(0, normalizeCalibration(data))],
+    cues: [],
+  }),
+};
+
+const INTERPOLATIONS = ['bilinear', 'spline'];
+const SYMMETRY_MODES = ['off', 'horizontal', 'vertical', 'quad', 'radial'];
+const MAX_REPORTED_ERRORS = 8;
+const POINT_ID = /^\d+-\d+$/;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isArray = (value: unknown): value is unknown[] => Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isDepth = (value: unknown) => isFiniteNumber(value) && Number.isInteger(value) && value >= 0;
+
+const isPoint = (value: unknown) => isObject(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y);
+
+// Collects "path: problem" messages while walking the file
+const createChecker = () => {
+  const errors: string[] = [];
+  const check = (ok: boolean, path: string, problem: string) => {
+    if (!ok) errors.push(`${path}: ${problem}`);
+    return ok;
+  };
+  return { errors, check };
+};
+
+type Check = ReturnType<typeof createChecker>['check'];
+
+// Ids must cover a whole rows × cols grid exactly once. A sparse or huge
+// grid would be filled in by getMeshGrid and stall the renderer.
+const validateMeshGrid = (ids: string[], path: string, check: Check) => {
+  if (!check(new Set(ids).size === ids.length, path, 'has duplicate point ids')) return;
+
+  let rows = 0;
+  let cols = 0;
+  for (const id of ids) {
+    const { row, col } = parsePointId(id);
+    rows = Math.max(rows, row + 1);
+    cols = Math.max(cols, col + 1);
+  }
+  const inRange = (n: number) => n >= MIN_MESH_SIZE && n <= MAX_MESH_SIZE;
+  if (!check(inRange(rows) && inRange(cols), path, `must be ${MIN_MESH_SIZE}-${MAX_MESH_SIZE} rows and columns`)) {
+    return;
+  }
+  check(ids.length === rows * cols, path, `is missing points of its ${rows}×${cols} grid`);
+};
+
+const validateMesh = (mesh: unknown, path: string, check: Check) => {
+  if (!isArray(mesh) || mesh.length < 4) {
+    check(false, path, 'must be an array of at least 4 points');
+    return;
+  }
+
+  const ids: string[] = [];
+  mesh.forEach((p, i) => {
+    const pointPath = `${path}[${i}]`;
+    if (!isObject(p)) {
+      check(false, pointPath, 'must be an object');
+      return;
+    }
+    const id = p.id;
+    if (isString(id) && POINT_ID.test(id)) ids.push(id);
+    else check(false, `${pointPath}.id`, 'must look like "row-col"');
+    check(isFiniteNumber(p.x) && isFiniteNumber(p.y), pointPath, 'x and y must be numbers');
+    check(p.u === undefined || isFiniteNumber(p.u), `${pointPath}.u`, 'must be a number');
+    check(p.v === undefined || isFiniteNumber(p.v), `${pointPath}.v`, 'must be a number');
+    check(p.uDepth === undefined || isDepth(p.uDepth), `${pointPath}.uDepth`, 'must be a whole number of at least 0');
+    check(p.vDepth === undefined || isDepth(p.vDepth), `${pointPath}.vDepth`, 'must be a whole number of at least 0');
+  });
+  // Bad points are already reported one by one
+  if (ids.length === mesh.length) validateMeshGrid(ids, path, check);
+};
+
+const validateOutput = (o: unknown, path: string, check: Check) => {
+  if (!isObject(o)) {
+    check(false, path, 'must be an object');
+    return;
+  }
+
+  check(isString(o.id) && o.id.length > 0, `${path}.id`, 'must be a non-empty string');
+  check(isString(o.name), `${path}.name`, 'must be a string');
+  validateMesh(o.mesh, `${path}.mesh`, check);
+
+  const region = o.region;
+  if (!isObject(region)) {
+    check(false, `${path}.region`, 'must be an object');
+  } else {
+    const { x, y, width, height } = region;
+    check(
+      isFiniteNumber(x) && isFiniteNumber(y) && isFiniteNumber(width) && isFiniteNumber(height) &&
+        width > 0 && height > 0,
+      `${path}.region`,
+      'needs numeric x, y and positive width, height'
+    );
+  }
+  check(isFiniteNumber(o.blendGamma) && o.blendGamma > 0, `${path}.blendGamma`, 'must be a positive number');
+
+  // Settings are optional (defaults fill them in) but must be well-formed if present
+  check(
+    o.interpolation === undefined || (isString(o.interpolation) && INTERPOLATIONS.includes(o.interpolation)),
+    `${path}.interpolation`,
+    `must be one of ${INTERPOLATIONS.join(', ')}`
+  );
+  check(
+    o.symmetry === undefined || (isString(o.symmetry) && SYMMETRY_MODES.includes(o.symmetry)),
+    `${path}.symmetry`,
+    `must be one of ${SYMMETRY_MODES.join(', ')}`
+  );
+  check(
+    o.subdivisions === undefined || (isFiniteNumber(o.subdivisions) && o.subdivisions >= 1),
+    `${path}.subdivisions`,
+    'must be a number of at least 1'
+  );
+  const masks = o.masks;
+  if (masks !== undefined && !isArray(masks)) {
+    check(false, `${path}.masks`, 'must be an array');
+  } else if (masks !== undefined) {
+    masks.forEach((m, i) => {
+      check(
+        isObject(m) && isArray(m.points) && m.points.every(isPoint),
+        `${path}.masks[${i}]`,
+        'must have a points array of { x, y }'
+      );
+    });
+  }
+  check(o.brightness === undefined || isObject(o.brightness), `${path}.brightness`, 'must be an object');
+};
+
+const validateCue = (c: unknown, path: string, check: Check) => {
+  if (!isObject(c)) {
+    check(false, path, 'must be an object');
+    return;
+  }
+  check(isString(c.id) && c.id.length > 0, `${path}.id`, 'must be a non-empty string');
+  check(isString(c.name), `${path}.name`, 'must be a string');
+  check(isString(c.uri), `${path}.uri`, 'must be a string');
+  check(typeof c.loop === 'boolean', `${path}.loop`, 'must be true or false');
+  check(c.duration === undefined || isFiniteNumber(c.duration), `${path}.duration`, 'must be a number');
+  check(c.number === undefined || (isFiniteNumber(c.number) && c.number > 0), `${path}.number`, 'must be a positive number');
+  check(c.notes === undefined || isString(c.notes), `${path}.notes`, 'must be a string');
+  const playback = c.playback;
+  if (playback !== undefined && !isObject(playback)) {
+    check(false, `${path}.playback`, 'must be an object');
+  } else if (playback !== undefined) {
+    const { inPoint, outPoint, rate, volume, fadeIn, fadeOut } = playback;
+    check(
+      [inPoint, rate, volume, fadeIn, fadeOut].every(isFiniteNumber) && (outPoint === null || isFiniteNumber(outPoint)),
+      `${path}.playback`,
+      'needs numeric inPoint, rate, volume, fadeIn, fadeOut and a numeric or null outPoint'
+    );
+  }
+};
+
+/**
+ * Check a (current version) show file. Returns readable problems, empty
+ * when the file is valid.
+ */
+export const validateShowFile = (data: unknown): string[] => {
+  const { errors, check } = createChecker();
+  if (!isObject(data)) {
+    check(false, 'file', 'must be a JSON object');
+    return errors;
+  }
+  const { outputs, cues } = data;
+
+  if (isArray(outputs) && outputs.length > 0) {
+    outputs.forEach((output, i) => validateOutput(output, `outputs[${i}]`, check));
+  } else {
+    check(false, 'outputs', 'must be a non-empty array');
+  }
+  if (isArray(cues)) {
+    cues.forEach((cue, i) => validateCue(cue, `cues[${i}]`, check));
+  } else {
+    check(false, 'cues', 'must be an array');
+  }
+  return errors;
+};
+
+// Narrows data that passed validateShowFile
+const isShowFile = (data: unknown): data is ShowFile => validateShowFile(data).length === 0;
+
+const detectVersion = (data: unknown): number | null => {
+  if (isObject(data) && data.format === SHOW_FILE_FORMAT) {
+    return isFiniteNumber(data.version) && Number.isInteger(data.version) ? data.version : null;
+  }
+  // Legacy calibration export: a mesh array or an object with a mesh
+  if (isArray(data) || (isObject(data) && isArray(data.mesh) && data.format === undefined)) {
+    return 0;
+  }
+  return null;
+};
+
+/**
+ * Parse, migrate and validate show file text. Outputs come back
+ * normalized (missing settings filled with defaults).
+ */
+export const parseShowFile = (text: string): ShowFileResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return { ok: false, errors: [`Not valid JSON (${e instanceof Error ? e.message : 'parse error'})`] };
+  }
+
+  const fileVersion = detectVersion(data);
+  if (fileVersion === null) {
+    return { ok: false, errors: ['Not a show file (missing or unknown format/version)'] };
+  }
+  if (fileVersion > SHOW_FILE_VERSION) {
+    return {
+      ok: false,
+      errors: [`Show file version ${fileVersion} is newer than this app supports (${SHOW_FILE_VERSION})`],
+    };
+  }
+
+  let version = fileVersion;
+  while (version < SHOW_FILE_VERSION) {
+    data = MIGRATIONS[version](data);
+    version++;
+  }
+
+  if (!isShowFile(data)) {
+    const errors = validateShowFile(data);
+    const extra = errors.length - MAX_REPORTED_ERRORS;
+    return {
+      ok: false,
+      errors: extra > 0 ? [...errors.slice(0, MAX_REPORTED_ERRORS), `…and ${extra} more`] : errors,
+    };
+  }
+
+  const show: ShowFile = {
+    ...data,
+    version: SHOW_FILE_VERSION,
+    outputs: data.outputs.map((output) => ({ ...output, ...normalizeCalibration(output) })),
+  };
+  return { ok: true, show, migratedFrom: fileVersion < SHOW_FILE_VERSION ? fileVersion : null };
+};
+
+export const createShowFile = (outputs: ProjectorOutput[], cues: VideoCue[]): ShowFile => ({
+  format: SHOW_FILE_FORMAT,
+  version: SHOW_FILE_VERSION,
+  exportedAt: new Date().toISOString(),
+  outputs,
+  cues,
+});
+
+export const serializeShowFile = (show: ShowFile) => JSON.stringify(show, null, 2);
+
+/**
+ * Add an imported show to the current one: outputs are appended (with new
+ * ids where they clash, up to MAX_OUTPUTS) and cues not already present
+ * are appended. `droppedOutputs` counts outputs that didn't fit.
+ */
+export const mergeShows = (
+  current: { outputs: ProjectorOutput[]; cues: VideoCue[] },
+  imported: ShowFile
+): { outputs: ProjectorOutput[]; cues: VideoCue[]; droppedOutputs: number } => {
+  const outputIds = new Set(current.outputs.map((o) => o.id));
+  const room = Math.max(0, MAX_OUTPUTS - current.outputs.length);
+  const added = imported.outputs.slice(0, room).map((output, i) =>
+    outputIds.has(output.id)
+      ? { ...output, id: createOutput(current.outputs.length + i).id }
+      : output
+  );
+
+  const cueIds = new Set(current.cues.map((c) => c.id));
+  return {
+    outputs: [...current.outputs, ...added],
+    cues: [...current.cues, ...imported.cues.filter((c) => !cueIds.has(c.id))],
+    droppedOutputs: imported.outputs.length - added.length,
+  };
+};
+
+/**
+ * Parse cues saved under the cues key, dropping malformed entries instead
+ * of passing them into state. Cues from before cue numbers get numbered.
+ */
+export const parseStoredCues = (json: string): VideoCue[] => {
+  const parsed: unknown = JSON.parse(json);
+  if (!isArray(parsed)) return [];
+  return numberCues(parsed.filter((cue): cue is VideoCue => {
+    const { errors, check } = createChecker();
+    validateCue(cue, 'cue', check);
+    if (errors.length > 0) console.warn('Dropping invalid stored cue:', errors);
+    return errors.length === 0;
+  }));
+};
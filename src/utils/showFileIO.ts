@@ -0,0 +1,55 @@
+import { Alert, Platform, Share } from 'react-native';
+
+/**
+ * Hand a show file to the user: a download on web, the share sheet on iOS
+ * (AirDrop, Files, Mail...).
+ */
+export const exportShowText = async (text: string, fileName: string) => {
+  if (Platform.OS === 'web') {
+    const url = URL.createObjectURL(new Blob([text], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+    return;
+  }
+  await Share.share({ title: fileName, message: text });
+};
+
+/**
+ * Ask for show file contents: a file picker on web; on iOS the text is
+ * pasted into a prompt (there is no document picker in this build).
+ * Resolves null when cancelled.
+ */
+export const pickShowText = (): Promise<string | null> =>
+  new Promise((resolve) => {
+    if (Platform.OS === 'web') {
+      const input = document.createElement('input');
+      input.type = 'file';
+      input.accept = '.json,application/json';
+      input.onchange = () => {
+        const file = input.files?.[0];
+        if (!file) {
+          resolve(null);
+          return;
+        }
+        file.text().then(resolve, (e) => {
+          console.warn('Failed to read show file', e);
+          resolve(null);
+        });
+      };
+      input.click();
+      return;
+    }
+
+    Alert.prompt(
+      'Import Show',
+      'Paste the contents of a show file.',
+      [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve(null) },
+        { text: 'Import', onPress: (text?: string) => resolve(text ?? null) },
+      ],
+      'plain-text'
+    );
+  });
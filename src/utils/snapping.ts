@@ -0,0 +1,79 @@
+import { SnapSettings } from '../types';
+
+type Point = { x: number; y: number };
+
+// Line or point the dragged point snapped to, for drawing guides (px)
+export type SnapGuide =
+  | { type: 'point'; x: number; y: number }
+  | { type: 'x'; x: number }
+  | { type: 'y'; y: number };
+
+export type SnapTargets = {
+  original: Point | null; // px
+  xLines: number[];       // px
+  yLines: number[];       // px
+};
+
+export const SNAP_THRESHOLD = 10; // px
+export const MIN_PIXEL_GRID = 2;
+export const MAX_PIXEL_GRID = 100;
+
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = {
+  toOriginal: false,
+  toNeighbours: false,
+  toPixelGrid: false,
+  pixelGridSize: 10,
+};
+
+export const isSnapping = (settings: SnapSettings) =>
+  settings.toOriginal || settings.toNeighbours || settings.toPixelGrid;
+
+const nearestWithin = (value: number, candidates: number[], threshold: number): number | null => {
+  let best: number | null = null;
+  let bestDist = threshold;
+  for (const c of candidates) {
+    const dist = Math.abs(value - c);
+    if (dist < bestDist) {
+      bestDist = dist;
+      best = c;
+    }
+  }
+  return best;
+};
+
+/**
+ * Snap a dragged position (px). The original grid position wins when
+ * close; otherwise each axis snaps to the nearest neighbour line in range,
+ * falling back to the pixel grid.
+ */
+export const snapPosition = (
+  p: Point,
+  targets: SnapTargets,
+  settings: SnapSettings,
+  threshold: number = SNAP_THRESHOLD
+): { point: Point; guides: SnapGuide[] } => {
+  const { original } = targets;
+  if (settings.toOriginal && original && Math.hypot(p.x - original.x, p.y - original.y) < threshold) {
+    return { point: original, guides: [{ type: 'point', ...original }] };
+  }
+
+  const guides: SnapGuide[] = [];
+  const snapAxis = (value: number, lines: number[], axis: 'x' | 'y') => {
+    if (settings.toNeighbours) {
+      const line = nearestWithin(value, lines, threshold);
+      if (line !== null) {
+        guides.push(axis === 'x' ? { type: 'x', x: line } : { type: 'y', y: line });
+        return line;
+      }
+    }
+    if (settings.toPixelGrid && settings.pixelGridSize > 0) {
+      return Math.round(value / settings.pixelGridSize) * settings.pixelGridSize;
+    }
+    return value;
+  };
+
+  return {
+    point: { x: snapAxis(p.x, targets.xLines, 'x'), y: snapAxis(p.y, targets.yLines, 'y') },
+    guides,
+  };
+};
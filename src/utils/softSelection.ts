@@ -0,0 +1,66 @@
+import { FalloffCurve, SoftSelection } from '../types';
+
+type Point = { x: number; y: number };
+
+export const MIN_SOFT_RADIUS = 0.02;
+export const MAX_SOFT_RADIUS = 1;
+
+export const DEFAULT_SOFT_SELECTION: SoftSelection = {
+  enabled: false,
+  radius: 0.2,
+  curve: 'smooth',
+};
+
+export const FALLOFF_CURVES: { curve: FalloffCurve; label: string }[] = [
+  { curve: 'linear', label: 'Linear' },
+  { curve: 'smooth', label: 'Smooth' },
+  { curve: 'sharp', label: 'Sharp' },
+];
+
+export const clampSoftRadius = (radius: number) =>
+  Math.max(MIN_SOFT_RADIUS, Math.min(MAX_SOFT_RADIUS, radius));
+
+// Weight (0-1) at a distance `t` from the dragged point, as a fraction of the radius
+export const falloffWeight = (curve: FalloffCurve, t: number): number => {
+  if (t >= 1) return 0;
+  const x = Math.max(0, t);
+  switch (curve) {
+    case 'linear':
+      return 1 - x;
+    case 'sharp':
+      return (1 - x) * (1 - x);
+    case 'smooth':
+    default:
+      return 1 - x * x * (3 - 2 * x);
+  }
+};
+
+/**
+ * New positions when `draggedId` is dragged to `target`, with every point
+ * inside the radius following by its falloff weight. Positions are
+ * normalized; `aspect` (width / height) keeps the radius circular.
+ */
+export const getSoftSelectionMoves = (
+  startPositions: Record<string, Point>,
+  draggedId: string,
+  target: Point,
+  soft: SoftSelection,
+  aspect: number
+): Record<string, Point> => {
+  const origin = startPositions[draggedId];
+  if (!origin) return {};
+
+  const dx = target.x - origin.x;
+  const dy = target.y - origin.y;
+  const moves: Record<string, Point> = { [draggedId]: target };
+
+  for (const [id, p] of Object.entries(startPositions)) {
+    if (id === draggedId) continue;
+    const distance = Math.hypot(p.x - origin.x, (p.y - origin.y) / aspect);
+    const weight = falloffWeight(soft.curve, distance / soft.radius);
+    if (weight > 0) {
+      moves[id] = { x: p.x + dx * weight, y: p.y + dy * weight };
+    }
+  }
+  return moves;
+};
@@ -0,0 +1,318 @@
+import { Mesh } from '../types';
+import { buildDefaultMesh, parsePointId } from './meshGrid';
+
+// RGBA pixels, row-major (same layout as canvas ImageData)
+export type CaptureImage = {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray | number[];
+};
+
+export type StructuredLightPattern =
+  | { kind: 'white' }
+  | { kind: 'black' }
+  | { kind: 'stripes'; axis: 'x' | 'y'; bit: number; inverted: boolean };
+
+export type StructuredLightOptions = {
+  bitsX: number;       // stripe code bits across the projector width
+  bitsY: number;       // and down its height
+  minContrast: number; // white - black (0-255) for a camera pixel to count as lit
+};
+
+// Decoded projector position for every camera pixel
+export type CorrespondenceMap = {
+  width: number;  // camera pixels
+  height: number;
+  projX: Float32Array; // normalized projector x, NaN where undecoded
+  projY: Float32Array;
+};
+
+// Axis-aligned rectangle in camera pixels
+export type CameraRect = { x: number; y: number; width: number; height: number };
+
+export type SolveResult = {
+  mesh: Mesh;
+  rect: CameraRect;     // where the content will appear in the camera image
+  missing: string[];    // point ids with no decoded pixels nearby (left flat)
+};
+
+export const DEFAULT_STRUCTURED_LIGHT_OPTIONS: StructuredLightOptions = {
+  bitsX: 7,
+  bitsY: 7,
+  minContrast: 24,
+};
+
+const SAMPLE_RADIUS = 2;       // camera px averaged around each target
+const SEARCH_RADIUS = 12;      // camera px searched for a decoded pixel
+const MIN_EDGE_COVERAGE = 0.95; // decoded fraction needed along each rect edge
+
+export const toGrayCode = (n: number) => n ^ (n >> 1);
+
+export const fromGrayCode = (g: number) => {
+  let n = g;
+  for (let shift = g >> 1; shift > 0; shift >>= 1) n ^= shift;
+  return n;
+};
+
+/**
+ * Patterns to project, in capture order: white and black references, then
+ * each Gray-code bit (most significant first) and its inverse, for x then y.
+ * Comparing a bit with its inverse makes decoding independent of surface
+ * colour and ambient light.
+ */
+export const getPatternSequence = (
+  options: StructuredLightOptions = DEFAULT_STRUCTURED_LIGHT_OPTIONS
+): StructuredLightPattern[] => {
+  const sequence: StructuredLightPattern[] = [{ kind: 'white' }, { kind: 'black' }];
+  const addAxis = (axis: 'x' | 'y', bits: number) => {
+    for (let bit = bits - 1; bit >= 0; bit--) {
+      sequence.push({ kind: 'stripes', axis, bit, inverted: false });
+      sequence.push({ kind: 'stripes', axis, bit, inverted: true });
+    }
+  };
+  addAxis('x', options.bitsX);
+  addAxis('y', options.bitsY);
+  return sequence;
+};
+
+export const describePattern = (pattern: StructuredLightPattern): string => {
+  if (pattern.kind !== 'stripes') return pattern.kind === 'white' ? 'White' : 'Black';
+  return `${pattern.axis.toUpperCase()} bit ${pattern.bit}${pattern.inverted ? ' (inverse)' : ''}`;
+};
+
+/**
+ * Whether a pattern is lit at a normalized projector position.
+ * Used both to draw the patterns and to synthesize test captures.
+ */
+export const isPatternLit = (
+  pattern: StructuredLightPattern,
+  x: number,
+  y: number,
+  options: StructuredLightOptions = DEFAULT_STRUCTURED_LIGHT_OPTIONS
+): boolean => {
+  if (pattern.kind !== 'stripes') return pattern.kind === 'white';
+
+  const bits = pattern.axis === 'x' ? options.bitsX : options.bitsY;
+  const t = pattern.axis === 'x' ? x : y;
+  const count = 1 << bits;
+  const index = Math.max(0, Math.min(count - 1, Math.floor(t * count)));
+  const lit = ((toGrayCode(index) >> pattern.bit) & 1) === 1;
+  return lit !== pattern.inverted;
+};
+
+const luminance = (image: CaptureImage, i: number) =>
+  image.data[i * 4] * 0.299 + image.data[i * 4 + 1] * 0.587 + image.data[i * 4 + 2] * 0.114;
+
+/**
+ * Decode a full capture sequence (one image per pattern, same order as
+ * getPatternSequence) into a camera-to-projector correspondence map.
+ * Throws when the captures don't match the sequence.
+ */
+export const decodeCaptures = (
+  captures: CaptureImage[],
+  options: StructuredLightOptions = DEFAULT_STRUCTURED_LIGHT_OPTIONS
+): CorrespondenceMap => {
+  const sequence = getPatternSequence(options);
+  if (captures.length !== sequence.length) {
+    throw new Error(`Expected ${sequence.length} captures, got ${captures.length}`);
+  }
+
+  const { width, height } = captures[0];
+  if (captures.some((c) => c.width !== width || c.height !== height)) {
+    throw new Error('All captures must have the same size');
+  }
+
+  const pixelCount = width * height;
+  const projX = new Float32Array(pixelCount).fill(NaN);
+  const projY = new Float32Array(pixelCount).fill(NaN);
+  const [white, black] = captures;
+
+  const decodeAxis = (axis: 'x' | 'y', bits: number, i: number): number => {
+    let gray = 0;
+    sequence.forEach((pattern, k) => {
+      if (pattern.kind !== 'stripes' || pattern.axis !== axis || pattern.inverted) return;
+      // The inverse always directly follows its pattern
+      if (luminance(captures[k], i) > luminance(captures[k + 1], i)) gray |= 1 << pattern.bit;
+    });
+    return (fromGrayCode(gray) + 0.5) / (1 << bits);
+  };
+
+  for (let i = 0; i < pixelCount; i++) {
+    if (luminance(white, i) - luminance(black, i) < options.minContrast) continue;
+    projX[i] = decodeAxis('x', options.bitsX, i);
+    projY[i] = decodeAxis('y', options.bitsY, i);
+  }
+
+  return { width, height, projX, projY };
+};
+
+const isDecoded = (map: CorrespondenceMap, x: number, y: number) =>
+  x >= 0 && y >= 0 && x < map.width && y < map.height && !Number.isNaN(map.projX[y * map.width + x]);
+
+/**
+ * Largest-ish axis-aligned camera rectangle that is decoded all around:
+ * start from the bounding box of decoded pixels and pull in whichever edge
+ * is worst covered until every edge is (almost) fully decoded.
+ */
+export const findCoverageRect = (map: CorrespondenceMap): CameraRect | null => {
+  let minX = map.width;
+  let minY = map.height;
+  let maxX = -1;
+  let maxY = -1;
+  for (let y = 0; y < map.height; y++) {
+    for (let x = 0; x < map.width; x++) {
+      if (!isDecoded(map, x, y)) continue;
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    }
+  }
+  if (maxX < 0) return null;
+
+  const rowCoverage = (y: number) => {
+    let count = 0;
+    for (let x = minX; x <= maxX; x++) if (isDecoded(map, x, y)) count++;
+    return count / (maxX - minX + 1);
+  };
+  const columnCoverage = (x: number) => {
+    let count = 0;
+    for (let y = minY; y <= maxY; y++) if (isDecoded(map, x, y)) count++;
+    return count / (maxY - minY + 1);
+  };
+
+  while (maxX - minX > 1 && maxY - minY > 1) {
+    const edges = [
+      { side: 'top', coverage: rowCoverage(minY) },
+      { side: 'bottom', coverage: rowCoverage(maxY) },
+      { side: 'left', coverage: columnCoverage(minX) },
+      { side: 'right', coverage: columnCoverage(maxX) },
+    ];
+    const worst = edges.reduce((a, b) => (b.coverage < a.coverage ? b : a));
+    if (worst.coverage >= MIN_EDGE_COVERAGE) break;
+
+    if (worst.side === 'top') minY++;
+    else if (worst.side === 'bottom') maxY--;
+    else if (worst.side === 'left') minX++;
+    else maxX--;
+  }
+
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+// Average projector position of decoded pixels near a camera position
+const sampleProjector = (map: CorrespondenceMap, cx: number, cy: number) => {
+  for (let radius = SAMPLE_RADIUS; radius <= SEARCH_RADIUS; radius *= 2) {
+    let sumX = 0;
+    let sumY = 0;
+    let count = 0;
+    const x0 = Math.round(cx);
+    const y0 = Math.round(cy);
+    for (let y = y0 - radius; y <= y0 + radius; y++) {
+      for (let x = x0 - radius; x <= x0 + radius; x++) {
+        if (!isDecoded(map, x, y)) continue;
+        const i = y * map.width + x;
+        sumX += map.projX[i];
+        sumY += map.projY[i];
+        count++;
+      }
+    }
+    if (count > 0) return { x: sumX / count, y: sumY / count };
+  }
+  return null;
+};
+
+/**
+ * Solve a rows x cols mesh so the content appears rectilinear from the
+ * camera: mesh point (u, v) is moved to the projector position that lights
+ * the matching point of a camera-space rectangle (the decoded coverage by
+ * default). Points that can't be decoded keep their flat position.
+ */
+export const solveMeshFromCorrespondence = (
+  map: CorrespondenceMap,
+  rows: number,
+  cols: number,
+  rect: CameraRect | null = findCoverageRect(map)
+): SolveResult | null => {
+  if (!rect) return null;
+
+  const missing: string[] = [];
+  const mesh = buildDefaultMesh(rows, cols).map((point) => {
+    const cx = rect.x + point.x * rect.width;
+    const cy = rect.y + point.y * rect.height;
+    const projector = sampleProjector(map, cx, cy);
+    if (!projector) {
+      missing.push(point.id);
+      return point;
+    }
+    return { ...point, x: projector.x, y: projector.y };
+  });
+
+  return { mesh, rect, missing };
+};
+
+/**
+ * Camera images of the whole pattern sequence for a known mapping from
+ * camera pixels to projector positions (null where the projector doesn't
+ * reach), so the decoder can be checked without a camera.
+ */
+export const synthesizeCaptures = (
+  width: number,
+  height: number,
+  cameraToProjector: (cx: number, cy: number) => { x: number; y: number } | null,
+  options: StructuredLightOptions = DEFAULT_STRUCTURED_LIGHT_OPTIONS
+): CaptureImage[] =>
+  getPatternSequence(options).map((pattern) => {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = (y * width + x) * 4;
+        const projector = cameraToProjector(x + 0.5, y + 0.5);
+        const value = projector && isPatternLit(pattern, projector.x, projector.y, options) ? 255 : 0;
+        data[i] = data[i + 1] = data[i + 2] = value;
+        data[i + 3] = 255;
+      }
+    }
+    return { width, height, data };
+  });
+
+/**
+ * Round trip an off-centre, unevenly stretched projection through
+ * synthesizeCaptures, decodeCaptures and solveMeshFromCorrespondence, and
+ * throw unless every solved mesh point lands where the known mapping says.
+ * Code quantization and edge sampling account for about one code step, so
+ * three are allowed. Returns the largest error, in normalized projector units.
+ */
+export const checkStructuredLightRoundTrip = (rows = 5, cols = 5): number => {
+  const options = DEFAULT_STRUCTURED_LIGHT_OPTIONS;
+  // The projection fills camera x 40-280, y 30-210, denser towards its edges
+  const cameraToProjector = (cx: number, cy: number) => {
+    const s = (cx - 40) / 240;
+    const t = (cy - 30) / 180;
+    if (s < 0 || s > 1 || t < 0 || t > 1) return null;
+    return { x: s + 0.2 * s * (1 - s), y: t + 0.2 * t * (1 - t) };
+  };
+
+  const map = decodeCaptures(synthesizeCaptures(320, 240, cameraToProjector, options), options);
+  const result = solveMeshFromCorrespondence(map, rows, cols);
+  if (!result) throw new Error('Round trip decoded no projected light');
+  if (result.missing.length > 0) {
+    throw new Error(`Round trip left ${result.missing.length} point(s) undecoded`);
+  }
+
+  const { rect } = result;
+  const tolerance = 3 / (1 << Math.min(options.bitsX, options.bitsY));
+  let worst = 0;
+  for (const point of result.mesh) {
+    const { row, col } = parsePointId(point.id);
+    const u = col / (cols - 1);
+    const v = row / (rows - 1);
+    const expected = cameraToProjector(rect.x + u * rect.width, rect.y + v * rect.height);
+    if (!expected) throw new Error(`Round trip point ${point.id} fell outside the projection`);
+    worst = Math.max(worst, Math.hypot(point.x - expected.x, point.y - expected.y));
+  }
+  if (worst > tolerance) {
+    throw new Error(`Round trip mesh is off by ${worst.toFixed(4)} (allowed ${tolerance.toFixed(4)})`);
+  }
+  return worst;
+};
@@ -0,0 +1,118 @@
+import { Mesh, SurfacePreset, SurfaceType } from '../types';
+import { buildDefaultMesh } from './meshGrid';
+
+export const DEFAULT_SURFACE_PRESET: SurfacePreset = {
+  type: 'sphere',
+  width: 3,
+  height: 1.6,
+  depth: 0.5,
+  distance: 5.5,
+  offsetX: 0,
+  offsetY: 0,
+  throwRatio: 1.5,
+};
+
+export const SURFACE_TYPES: { type: SurfaceType; label: string }[] = [
+  { type: 'sphere', label: 'Dome' },
+  { type: 'cylinder', label: 'Cylinder' },
+  { type: 'parabolic', label: 'Dish' },
+];
+
+const PROFILE_SAMPLES = 256;
+
+// Radius of a circular arc spanning `halfSpan` either side with sagitta `depth`
+const arcRadius = (halfSpan: number, depth: number) =>
+  (halfSpan * halfSpan + depth * depth) / (2 * depth);
+
+/**
+ * Height of the surface above its deepest point at lateral position (x, y),
+ * measured from the surface centre. 0 at the centre, `depth` at the rim.
+ */
+export const getSurfaceHeight = (preset: SurfacePreset, x: number, y: number): number => {
+  const { type, depth } = preset;
+  if (depth <= 0) return 0;
+
+  const halfSpan = Math.max(preset.width, preset.height) / 2;
+  switch (type) {
+    case 'cylinder': {
+      // Curved left to right, straight top to bottom
+      const radius = arcRadius(preset.width / 2, depth);
+      return radius - Math.sqrt(Math.max(0, radius * radius - x * x));
+    }
+    case 'parabolic':
+      return (depth * (x * x + y * y)) / (halfSpan * halfSpan);
+    case 'sphere':
+    default: {
+      const radius = arcRadius(halfSpan, depth);
+      return radius - Math.sqrt(Math.max(0, radius * radius - x * x - y * y));
+    }
+  }
+};
+
+/**
+ * Lateral positions (-span/2 .. span/2) that divide a surface profile into
+ * equal arc lengths, so content keeps its proportions when wrapped onto the
+ * curve instead of stretching towards the rim.
+ */
+const arcLengthPositions = (
+  span: number,
+  profile: (t: number) => number,
+  count: number
+): number[] => {
+  const ts: number[] = [];
+  const lengths: number[] = [0];
+  for (let i = 0; i <= PROFILE_SAMPLES; i++) {
+    ts.push(-span / 2 + (span * i) / PROFILE_SAMPLES);
+    if (i > 0) {
+      const dt = ts[i] - ts[i - 1];
+      const dz = profile(ts[i]) - profile(ts[i - 1]);
+      lengths.push(lengths[i - 1] + Math.hypot(dt, dz));
+    }
+  }
+
+  const total = lengths[PROFILE_SAMPLES];
+  const positions: number[] = [];
+  let k = 0;
+  for (let i = 0; i < count; i++) {
+    const target = count > 1 ? (total * i) / (count - 1) : 0;
+    while (k < PROFILE_SAMPLES - 1 && lengths[k + 1] < target) k++;
+    const segment = lengths[k + 1] - lengths[k];
+    const f = segment > 0 ? (target - lengths[k]) / segment : 0;
+    positions.push(ts[k] + Math.max(0, Math.min(1, f)) * (ts[k + 1] - ts[k]));
+  }
+  return positions;
+};
+
+/**
+ * Seed a rows x cols mesh for a curved surface: the content is spread over
+ * the surface by arc length, and each surface point is projected into the
+ * projector image (pinhole model, lens axis perpendicular to the rim plane).
+ * `aspect` is the projector image width / height. Positions can fall
+ * outside 0-1 when the surface is larger than the projected image.
+ */
+export const buildSurfaceMesh = (
+  preset: SurfacePreset,
+  rows: number,
+  cols: number,
+  aspect: number
+): Mesh => {
+  const xs = arcLengthPositions(preset.width, (x) => getSurfaceHeight(preset, x, 0), cols);
+  const ys = arcLengthPositions(preset.height, (y) => getSurfaceHeight(preset, 0, y), rows);
+
+  return buildDefaultMesh(rows, cols).map((point, i) => {
+    const x = xs[i % cols];
+    const y = ys[Math.floor(i / cols)];
+    // Depth from the lens: the rim is at `distance`, the centre `depth` further
+    const z = preset.distance + preset.depth - getSurfaceHeight(preset, x, y);
+    const imageWidth = z / preset.throwRatio;
+    return {
+      ...point,
+      x: 0.5 + (x - preset.offsetX) / imageWidth,
+      y: 0.5 + ((y - preset.offsetY) * aspect) / imageWidth,
+    };
+  });
+};
+
+// Points that land outside the projected image
+export const countOutOfFrame = (mesh: Mesh) =>
+  mesh.filter((p) => p.x < 0 || p.x > 1 || p.y < 0 || p.y > 1).length;
@@ -0,0 +1,132 @@
+import { Mesh, SymmetryMode } from '../types';
+import { getMeshDimensions, parsePointId } from './meshGrid';
+
+type Point = { x: number; y: number };
+
+// A point that follows a dragged point, with how the drag delta maps onto it
+type Counterpart = {
+  id: string;
+  mapDelta: (dx: number, dy: number) => Point;
+};
+
+export const SYMMETRY_ORDER: SymmetryMode[] = ['off', 'horizontal', 'vertical', 'quad', 'radial'];
+
+export const SYMMETRY_LABELS: Record<SymmetryMode, string> = {
+  off: 'No Mirror',
+  horizontal: '⇆ Mirror L/R',
+  vertical: '⇅ Mirror T/B',
+  quad: '✥ Quad',
+  radial: '◎ Radial',
+};
+
+// Points on the same ring count as radial counterparts within this distance
+const RING_TOLERANCE = 1e-6;
+
+export const nextSymmetryMode = (mode: SymmetryMode): SymmetryMode =>
+  SYMMETRY_ORDER[(SYMMETRY_ORDER.indexOf(mode) + 1) % SYMMETRY_ORDER.length];
+
+/**
+ * Points that mirror `id` under a symmetry mode, found by "r-c" id.
+ * Mirror modes reflect the delta across the mesh's centre lines. Radial
+ * mode matches every point at the same distance from the grid centre and
+ * rotates the delta to each one's angle, so pulling one point of a ring
+ * in or out moves the whole ring. Distances and angles are measured with
+ * x scaled by `aspect` (output width / height), so rings are round on
+ * the output rather than stretched to its shape.
+ */
+export const getSymmetryCounterparts = (
+  mesh: Mesh,
+  id: string,
+  mode: SymmetryMode,
+  aspect = 1
+): Counterpart[] => {
+  if (mode === 'off') return [];
+
+  const { rows, cols } = getMeshDimensions(mesh);
+  const { row, col } = parsePointId(id);
+  const mirrorRow = rows - 1 - row;
+  const mirrorCol = cols - 1 - col;
+  const candidates: { row: number; col: number; mapDelta: Counterpart['mapDelta'] }[] = [];
+
+  if (mode === 'horizontal' || mode === 'quad') {
+    candidates.push({ row, col: mirrorCol, mapDelta: (dx, dy) => ({ x: -dx, y: dy }) });
+  }
+  if (mode === 'vertical' || mode === 'quad') {
+    candidates.push({ row: mirrorRow, col, mapDelta: (dx, dy) => ({ x: dx, y: -dy }) });
+  }
+  if (mode === 'quad') {
+    candidates.push({ row: mirrorRow, col: mirrorCol, mapDelta: (dx, dy) => ({ x: -dx, y: -dy }) });
+  }
+
+  if (mode === 'radial') {
+    // Grid-space offset from the centre, in output heights
+    const offset = (r: number, c: number) => ({
+      x: (c / Math.max(1, cols - 1) - 0.5) * aspect,
+      y: r / Math.max(1, rows - 1) - 0.5,
+    });
+    const own = offset(row, col);
+    const radius = Math.hypot(own.x, own.y);
+    if (radius > RING_TOLERANCE) {
+      const angle = Math.atan2(own.y, own.x);
+      for (const p of mesh) {
+        const other = parsePointId(p.id);
+        const o = offset(other.row, other.col);
+        if (Math.abs(Math.hypot(o.x, o.y) - radius) > RING_TOLERANCE) continue;
+        const turn = Math.atan2(o.y, o.x) - angle;
+        const cos = Math.cos(turn);
+        const sin = Math.sin(turn);
+        candidates.push({
+          row: other.row,
+          col: other.col,
+          // Rotate in output proportions, then back to 0-1 mesh units
+          mapDelta: (dx, dy) => ({
+            x: (dx * aspect * cos - dy * sin) / aspect,
+            y: dx * aspect * sin + dy * cos,
+          }),
+        });
+      }
+    }
+  }
+
+  const seen = new Set([id]);
+  const counterparts: Counterpart[] = [];
+  for (const c of candidates) {
+    const cid = `${c.row}-${c.col}`;
+    if (seen.has(cid)) continue;
+    seen.add(cid);
+    counterparts.push({ id: cid, mapDelta: c.mapDelta });
+  }
+  return counterparts;
+};
+
+/**
+ * Extend a set of point moves (new mesh-space positions by id) with the
+ * mirrored moves of their counterparts. Points moved explicitly keep
+ * their own position.
+ */
+export const applySymmetry = (
+  mesh: Mesh,
+  moves: Record<string, Point>,
+  mode: SymmetryMode,
+  aspect = 1
+): Record<string, Point> => {
+  if (mode === 'off') return moves;
+
+  const byId = new Map(mesh.map((p) => [p.id, p]));
+  const result: Record<string, Point> = { ...moves };
+  for (const [id, target] of Object.entries(moves)) {
+    const current = byId.get(id);
+    if (!current) continue;
+    const dx = target.x - current.x;
+    const dy = target.y - current.y;
+
+    for (const counterpart of getSymmetryCounterparts(mesh, id, mode, aspect)) {
+      if (counterpart.id in moves || counterpart.id in result) continue;
+      const other = byId.get(counterpart.id);
+      if (!other) continue;
+      const delta = counterpart.mapDelta(dx, dy);
+      result[counterpart.id] = { x: other.x + delta.x, y: other.y + delta.y };
+    }
+  }
+  return result;
+};
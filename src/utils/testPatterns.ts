@@ -0,0 +1,33 @@
+import { TestPattern, TestPatternType } from '../types';
+
+export const MIN_PATTERN_CELLS = 1;
+export const MAX_PATTERN_CELLS = 8;
+
+export const DEFAULT_TEST_PATTERN: TestPattern = {
+  type: 'checkerboard',
+  cellsPerMeshCell: 2,
+  foreground: '#ffffff',
+  background: '#000000',
+};
+
+export const TEST_PATTERNS: { type: TestPatternType; label: string }[] = [
+  { type: 'checkerboard', label: 'Checker' },
+  { type: 'grid', label: 'Grid' },
+  { type: 'crosshairs', label: 'Crosshairs' },
+  { type: 'colorBars', label: 'Bars' },
+  { type: 'grayRamp', label: 'Ramp' },
+  { type: 'white', label: 'White' },
+];
+
+export const PATTERN_COLORS = ['#ffffff', '#000000', '#ff0000', '#00ff00', '#0000ff', '#ffff00', '#00ffff', '#808080'];
+
+// SMPTE-style bars, left to right
+export const COLOR_BARS = ['#c0c0c0', '#c0c000', '#00c0c0', '#00c000', '#c000c0', '#c00000', '#0000c0'];
+
+export const clampPatternCells = (cells: number) =>
+  Math.max(MIN_PATTERN_CELLS, Math.min(MAX_PATTERN_CELLS, Math.round(cells)));
+
+export const nextPatternColor = (color: string): string => {
+  const index = PATTERN_COLORS.indexOf(color.toLowerCase());
+  return PATTERN_COLORS[(index + 1) % PATTERN_COLORS.length];
+};